@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getFiringAlerts, getAlertRules } from '@/app/lib/alerts';
+
+export async function GET() {
+  try {
+    const alerts = await getFiringAlerts();
+    return NextResponse.json({
+      alerts,
+      ruleCount: getAlertRules().length,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/alerts:', error);
+    return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 });
+  }
+}
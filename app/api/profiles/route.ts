@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getConnectionProfiles,
+  getConnectionProfile,
+  toProfileSummary,
+  PROFILE_COOKIE_NAME,
+} from '@/app/lib/connectionProfiles';
+
+export async function GET(request: NextRequest) {
+  try {
+    const activeProfile = getConnectionProfile(request.cookies.get(PROFILE_COOKIE_NAME)?.value);
+    
+    return NextResponse.json({
+      profiles: getConnectionProfiles().map(toProfileSummary),
+      activeProfile: activeProfile.name,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/profiles:', error);
+    return NextResponse.json({ error: 'Failed to fetch connection profiles' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const { name } = await request.json();
+    
+    if (!getConnectionProfiles().some(profile => profile.name === name)) {
+      return NextResponse.json({ error: `Unknown connection profile: ${name}` }, { status: 400 });
+    }
+    
+    const response = NextResponse.json({ activeProfile: name });
+    response.cookies.set(PROFILE_COOKIE_NAME, name, {
+      path: '/',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24 * 365,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error in PUT /api/profiles:', error);
+    return NextResponse.json({ error: 'Failed to select connection profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveProfile } from '@/app/lib/sqs';
+import { subscribeToQueue, QueueEvent } from '@/app/lib/queueEvents';
+
+// Comment lines sent in between events, so proxies do not close an idle stream
+const KEEP_ALIVE_INTERVAL_MS = 15 * 1000;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    // The queue keeps being polled after this request returned, so resolve its profile now
+    const profile = await getActiveProfile();
+
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | undefined;
+    let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+    const close = () => {
+      unsubscribe?.();
+      unsubscribe = undefined;
+      clearInterval(keepAlive);
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (text: string) => {
+          try {
+            controller.enqueue(encoder.encode(text));
+          } catch {
+            // The stream was closed in between
+            close();
+          }
+        };
+
+        unsubscribe = subscribeToQueue(profile, decodedQueueUrl, (event: QueueEvent) => {
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        });
+        keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+
+        request.signal.addEventListener('abort', close);
+      },
+      cancel() {
+        close();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/queues/[queueUrl]/events:', error);
+    return NextResponse.json({ error: 'Failed to subscribe to queue events' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteMessageBatch, ReceivedMessageHandle } from '@/app/lib/sqs';
+
+// DeleteMessageBatch takes 10 messages per call, so a request is a few calls at most
+const MAX_MESSAGES_PER_REQUEST = 50;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const { messages } = await request.json();
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json({ error: 'Messages must be a non-empty array' }, { status: 400 });
+    }
+
+    if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+      return NextResponse.json({ error: `At most ${MAX_MESSAGES_PER_REQUEST} messages can be acknowledged per request` }, { status: 400 });
+    }
+
+    if (messages.some((message: ReceivedMessageHandle) => !message?.id || !message.receiptHandle)) {
+      return NextResponse.json({ error: 'Every message needs an ID and a receipt handle' }, { status: 400 });
+    }
+
+    // Unlike peeked messages, received messages are not looked up again: an expired receipt handle
+    // means the visibility timeout ended and the message may already be with another consumer
+    const results = await deleteMessageBatch(decodedQueueUrl, messages);
+
+    const deleted = results.filter(result => result.success).length;
+    console.log(`Acknowledged ${deleted} of ${messages.length} messages in ${decodedQueueUrl}`);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/messages/acknowledge:', error);
+    return NextResponse.json({ error: 'Failed to acknowledge messages' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sendMessageBatch, getQueueAttributes, BatchMessageEntry, BatchSendResult } from '@/app/lib/sqs';
+import { validateSendOptions, SendOptionsInput } from '@/app/lib/messageValidation';
+
+// Upper bound for a single request so the UI can report progress between requests
+const MAX_ENTRIES_PER_REQUEST = 500;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const { entries, dryRun } = await request.json();
+    
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return NextResponse.json({ error: 'At least one message entry is required' }, { status: 400 });
+    }
+    
+    if (entries.length > MAX_ENTRIES_PER_REQUEST) {
+      return NextResponse.json({ error: `At most ${MAX_ENTRIES_PER_REQUEST} messages can be sent per request` }, { status: 400 });
+    }
+    
+    const isFifo = decodedQueueUrl.endsWith('.fifo');
+    const attributes = isFifo ? await getQueueAttributes(decodedQueueUrl, ['ContentBasedDeduplication']) : {};
+    const queueSettings = { isFifo, contentBasedDeduplication: attributes.ContentBasedDeduplication === 'true' };
+    
+    // Invalid entries are reported as failures, so the valid ones can still be sent
+    const result: BatchSendResult = { successful: [], failed: [] };
+    const validEntries: BatchMessageEntry[] = [];
+    const validIndexes: number[] = [];
+    
+    entries.forEach((entry: SendOptionsInput & { body?: unknown }, index: number) => {
+      if (entry === null || typeof entry !== 'object' || Array.isArray(entry)) {
+        result.failed.push({ index, error: 'Message entry must be an object' });
+        return;
+      }
+      
+      if (entry.body === undefined || entry.body === null || entry.body === '') {
+        result.failed.push({ index, error: 'Message body is required' });
+        return;
+      }
+      
+      const { options, error } = validateSendOptions(entry, queueSettings);
+      if (error) {
+        result.failed.push({ index, error });
+        return;
+      }
+      
+      validEntries.push({
+        ...options,
+        body: typeof entry.body === 'object' ? JSON.stringify(entry.body) : String(entry.body),
+      });
+      validIndexes.push(index);
+    });
+    
+    // A dry run only validates the entries, so everything not reported as failed would be sent
+    if (validEntries.length > 0 && !dryRun) {
+      const sendResult = await sendMessageBatch(decodedQueueUrl, validEntries);
+      
+      // Map indexes of the valid entries back to indexes of the request entries
+      result.successful.push(...sendResult.successful.map(success => ({ ...success, index: validIndexes[success.index] })));
+      result.failed.push(...sendResult.failed.map(failure => ({ ...failure, index: validIndexes[failure.index] })));
+    }
+    
+    result.failed.sort((a, b) => a.index - b.index);
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/messages/batch:', error);
+    return NextResponse.json({ error: 'Failed to send messages' }, { status: 500 });
+  }
+}
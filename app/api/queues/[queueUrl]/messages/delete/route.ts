@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { bulkDeleteMessages, BulkDeleteOptions } from '@/app/lib/sqs';
+import { compileMessageFilter, MessageFilter } from '@/app/lib/messageFilter';
+
+// Upper bounds for a single pass; the pass also ends before the received messages become visible again
+const MAX_MESSAGE_IDS = 1000;
+const MAX_SCANNED_MESSAGES = 10000;
+
+const MATCH_MODES = ['substring', 'regex', 'jsonPath'];
+
+// The filter comes straight from the request body, so check its shape before compiling it
+function validateFilter(filter: MessageFilter): string | null {
+  if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    return 'Filter must be an object';
+  }
+  if (filter.query !== undefined && typeof filter.query !== 'string') {
+    return 'Filter query must be a string';
+  }
+  if (!MATCH_MODES.includes(filter.mode)) {
+    return `Filter mode must be ${MATCH_MODES.join(', ')}`;
+  }
+  for (const field of ['minReceiveCount', 'sentAfter', 'sentBefore'] as const) {
+    if (filter[field] !== undefined && !Number.isFinite(filter[field])) {
+      return `Filter ${field} must be a number`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Deletes selected messages, or all messages matching a filter, with a single pass over the queue
+ * instead of looking up every message individually.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const { messageIds, filter } = await request.json() as { messageIds?: string[]; filter?: MessageFilter };
+
+    if (!messageIds === !filter) {
+      return NextResponse.json({ error: 'Either message IDs or a filter is required' }, { status: 400 });
+    }
+
+    const options: BulkDeleteOptions = { maxScanned: MAX_SCANNED_MESSAGES };
+
+    if (messageIds) {
+      if (!Array.isArray(messageIds) || messageIds.length === 0 || !messageIds.every(id => typeof id === 'string')) {
+        return NextResponse.json({ error: 'Message IDs must be a non-empty array of strings' }, { status: 400 });
+      }
+
+      if (messageIds.length > MAX_MESSAGE_IDS) {
+        return NextResponse.json({ error: `At most ${MAX_MESSAGE_IDS} messages can be deleted at once` }, { status: 400 });
+      }
+
+      options.messageIds = messageIds;
+    } else if (filter) {
+      const filterError = validateFilter(filter);
+      if (filterError) {
+        return NextResponse.json({ error: filterError }, { status: 400 });
+      }
+
+      const { matches, error } = compileMessageFilter(filter);
+      if (error) {
+        return NextResponse.json({ error }, { status: 400 });
+      }
+
+      // Deleting everything is what purging the queue is for
+      if (!matches) {
+        return NextResponse.json({ error: 'The filter matches every message; purge the queue instead' }, { status: 400 });
+      }
+
+      options.matches = matches;
+    }
+
+    const result = await bulkDeleteMessages(decodedQueueUrl, options);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/messages/delete:', error);
+    return NextResponse.json({ error: 'Failed to delete messages' }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { peekMessages, receiveMessagesOrThrow, deleteMessageBatch, releaseMessages, Message } from '@/app/lib/sqs';
+import {
+  ExportFormat,
+  EXPORT_CONTENT_TYPES,
+  toExportedMessage,
+  formatExportHeader,
+  formatExportFooter,
+  formatExportedMessage,
+} from '@/app/lib/messageExport';
+
+const MAX_EXPORT_MESSAGES = 10000;
+
+// Stop draining after this many consecutive empty receives, as short polling can miss messages
+const MAX_EMPTY_RECEIVES = 3;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = (searchParams.get('format') || 'ndjson') as ExportFormat;
+    const mode = searchParams.get('mode') || 'peek';
+    const maxMessages = parseInt(searchParams.get('max') || '1000', 10);
+
+    if (!Object.hasOwn(EXPORT_CONTENT_TYPES, format)) {
+      return NextResponse.json({ error: 'Format must be ndjson, json or csv' }, { status: 400 });
+    }
+
+    if (mode !== 'peek' && mode !== 'drain') {
+      return NextResponse.json({ error: 'Mode must be peek or drain' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(maxMessages) || maxMessages < 1 || maxMessages > MAX_EXPORT_MESSAGES) {
+      return NextResponse.json({ error: `Max messages must be between 1 and ${MAX_EXPORT_MESSAGES}` }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    request.signal.addEventListener('abort', () => {
+      cancelled = true;
+    });
+
+    let exported = 0;
+    let emptyReceives = 0;
+    let failedDeletes = 0;
+
+    // Messages are produced on demand: pull() only runs when the download has taken what was written before,
+    // so a drain deletes at most one batch of messages ahead of what the browser received
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(formatExportHeader(format)));
+      },
+      async pull(controller) {
+        const write = (message: Message) => {
+          controller.enqueue(encoder.encode(formatExportedMessage(toExportedMessage(message), format, exported)));
+          exported++;
+        };
+
+        const finish = () => {
+          console.log(`Exported ${exported} messages from ${decodedQueueUrl} (${mode}, ${format})`
+            + (failedDeletes > 0 ? `, ${failedDeletes} could not be deleted and were left in the queue` : ''));
+          controller.enqueue(encoder.encode(formatExportFooter(format, exported)));
+          controller.close();
+        };
+
+        try {
+          if (mode === 'peek') {
+            const messages = await peekMessages(decodedQueueUrl, maxMessages);
+            messages.forEach(write);
+            finish();
+            return;
+          }
+
+          // pull() is only called again once something was written, so receive until a message was exported
+          while (!cancelled) {
+            if (exported >= maxMessages || emptyReceives >= MAX_EMPTY_RECEIVES) {
+              finish();
+              return;
+            }
+
+            // A failing receive must not end the export as if the queue was drained
+            const messages = await receiveMessagesOrThrow(decodedQueueUrl, Math.min(10, maxMessages - exported));
+            emptyReceives = messages.length === 0 ? emptyReceives + 1 : 0;
+            if (messages.length === 0) continue;
+
+            // The download was aborted while receiving, so nothing of this batch is deleted
+            if (cancelled) {
+              await releaseMessages(decodedQueueUrl, messages.map(message => message.receiptHandle));
+              return;
+            }
+
+            // Drain: a message is only written once it was deleted, so a message that could not be deleted
+            // stays in the queue instead of being exported again by the next drain
+            const deleteResults = await deleteMessageBatch(decodedQueueUrl, messages.map(message => ({
+              id: message.id,
+              receiptHandle: message.receiptHandle,
+            })));
+            const failed = messages.filter((_, index) => !deleteResults[index].success);
+            failedDeletes += failed.length;
+            if (failed.length > 0) {
+              console.error(`Could not delete ${failed.length} exported messages from ${decodedQueueUrl}, releasing them:`,
+                deleteResults.filter(result => !result.success).map(result => `${result.id}: ${result.error}`));
+              await releaseMessages(decodedQueueUrl, failed.map(message => message.receiptHandle));
+            }
+
+            const deleted = messages.filter((_, index) => deleteResults[index].success);
+            if (deleted.length === 0) {
+              // Receiving the same undeletable messages again would never end, so fail the download instead
+              throw new Error(`Could not delete exported messages: ${deleteResults[0].error}`);
+            }
+            if (!cancelled) {
+              deleted.forEach(write);
+              return;
+            }
+          }
+        } catch (error) {
+          console.error(`Error exporting messages from queue ${decodedQueueUrl}:`, error);
+          controller.error(error);
+        }
+      },
+      cancel() {
+        // The download was aborted, so stop receiving (and deleting) messages
+        cancelled = true;
+      },
+    });
+
+    const queueName = decodedQueueUrl.split('/').pop() || 'queue';
+    const fileName = `${queueName}-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/queues/[queueUrl]/messages/export:', error);
+    return NextResponse.json({ error: 'Failed to export messages' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replaceMessage, getQueueAttributes, MessageAttribute } from '@/app/lib/sqs';
+import { validateSendOptions } from '@/app/lib/messageValidation';
+
+// Added to the edited copy so it can be traced back to the message it replaced
+const ORIGINAL_MESSAGE_ID_ATTRIBUTE = 'OriginalMessageId';
+const EDITED_AT_ATTRIBUTE = 'EditedAt';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const { messageId, targetQueueUrl, message, messageAttributes, delaySeconds, messageGroupId, messageDeduplicationId } = await request.json();
+
+    if (!messageId) {
+      return NextResponse.json({ error: 'Message ID is required' }, { status: 400 });
+    }
+
+    if (typeof message !== 'string' || !message) {
+      return NextResponse.json({ error: 'Message body is required' }, { status: 400 });
+    }
+
+    // Without a target queue the edited copy replaces the original in the same queue
+    const targetUrl: string = targetQueueUrl || decodedQueueUrl;
+    const isFifo = targetUrl.endsWith('.fifo');
+    const attributes = isFifo ? await getQueueAttributes(targetUrl, ['ContentBasedDeduplication']) : {};
+    const editedAt = new Date();
+
+    const tracedAttributes: Record<string, MessageAttribute> = {
+      ...(messageAttributes || {}),
+      [ORIGINAL_MESSAGE_ID_ATTRIBUTE]: { dataType: 'String', stringValue: messageId },
+      [EDITED_AT_ATTRIBUTE]: { dataType: 'String', stringValue: editedAt.toISOString() },
+    };
+
+    const { options, error } = validateSendOptions(
+      {
+        messageAttributes: tracedAttributes,
+        delaySeconds,
+        messageGroupId,
+        // The copy must not be deduplicated against the original, or the message would be lost when the original is deleted
+        messageDeduplicationId: isFifo && !messageDeduplicationId ? `${messageId}-${editedAt.getTime()}` : messageDeduplicationId,
+      },
+      { isFifo, contentBasedDeduplication: attributes.ContentBasedDeduplication === 'true' }
+    );
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const result = await replaceMessage(decodedQueueUrl, messageId, targetUrl, message, options);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/messages/replace:', error);
+    return NextResponse.json({ error: 'Failed to replace message' }, { status: 500 });
+  }
+}
@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { sendMessage, receiveMessages, peekMessages, deleteMessage, receiveMessageById } from '@/app/lib/sqs';
+import { sendMessage, receiveMessages, peekMessages, deleteMessage, receiveMessageById, getQueueAttributes } from '@/app/lib/sqs';
+import { validateSendOptions } from '@/app/lib/messageValidation';
+import { compileMessageFilter, parseMessageFilterParams } from '@/app/lib/messageFilter';
+
+// SQS allows a visibility timeout of at most 12 hours and long polls of at most 20 seconds
+const MAX_VISIBILITY_TIMEOUT = 12 * 60 * 60;
+const MAX_WAIT_TIME_SECONDS = 20;
 
 export async function GET(
   request: NextRequest, 
@@ -17,12 +23,40 @@ export async function GET(
     // Check if we should use receive or peek mode (default to peek)
     const mode = searchParams.get('mode') || 'peek';
     
-    // Use the appropriate function based on the mode
-    const messages = mode === 'receive' 
-      ? await receiveMessages(decodedQueueUrl, maxMessages)
-      : await peekMessages(decodedQueueUrl, maxMessages);
+    // A filter is applied after peeking, so max is the number of messages searched rather than returned
+    const filter = parseMessageFilterParams(searchParams);
+    const { matches, error } = filter ? compileMessageFilter(filter) : {};
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    
+    if (mode === 'receive') {
+      // Received messages stay hidden until they are deleted, released or their visibility timeout ends,
+      // so every one of them is returned: filtering would leave messages in flight without their receipt handle
+      if (filter) {
+        return NextResponse.json({ error: 'Receive mode does not support filters' }, { status: 400 });
+      }
+      
+      const visibilityTimeout = parseInt(searchParams.get('visibilityTimeout') || '30', 10);
+      const waitTimeSeconds = parseInt(searchParams.get('waitTimeSeconds') || '0', 10);
+      
+      if (!Number.isInteger(maxMessages) || maxMessages < 1 || maxMessages > 10) {
+        return NextResponse.json({ error: 'Receive mode returns between 1 and 10 messages' }, { status: 400 });
+      }
+      if (!Number.isInteger(visibilityTimeout) || visibilityTimeout < 0 || visibilityTimeout > MAX_VISIBILITY_TIMEOUT) {
+        return NextResponse.json({ error: `Visibility timeout must be between 0 and ${MAX_VISIBILITY_TIMEOUT} seconds` }, { status: 400 });
+      }
+      if (!Number.isInteger(waitTimeSeconds) || waitTimeSeconds < 0 || waitTimeSeconds > MAX_WAIT_TIME_SECONDS) {
+        return NextResponse.json({ error: `Wait time must be between 0 and ${MAX_WAIT_TIME_SECONDS} seconds` }, { status: 400 });
+      }
+      
+      const messages = await receiveMessages(decodedQueueUrl, maxMessages, { visibilityTimeout, waitTimeSeconds });
+      return NextResponse.json(messages);
+    }
+    
+    const messages = await peekMessages(decodedQueueUrl, maxMessages);
       
-    return NextResponse.json(messages);
+    return NextResponse.json(matches ? messages.filter(matches) : messages);
   } catch (error) {
     console.error('Error in GET /api/queues/[queueUrl]/messages:', error);
     return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
@@ -36,7 +70,7 @@ export async function POST(
   try {
     const params = await context.params;
     const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
-    const { message } = await request.json();
+    const { message, messageAttributes, delaySeconds, messageGroupId, messageDeduplicationId } = await request.json();
     
     if (!message) {
       return NextResponse.json({ error: 'Message body is required' }, { status: 400 });
@@ -45,7 +79,19 @@ export async function POST(
     // If the message is an object, stringify it
     const messageBody = typeof message === 'object' ? JSON.stringify(message) : message;
     
-    const success = await sendMessage(decodedQueueUrl, messageBody);
+    const isFifo = decodedQueueUrl.endsWith('.fifo');
+    const attributes = isFifo ? await getQueueAttributes(decodedQueueUrl, ['ContentBasedDeduplication']) : {};
+    
+    const { options, error } = validateSendOptions(
+      { messageAttributes, delaySeconds, messageGroupId, messageDeduplicationId },
+      { isFifo, contentBasedDeduplication: attributes.ContentBasedDeduplication === 'true' }
+    );
+    
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    
+    const success = await sendMessage(decodedQueueUrl, messageBody, options);
     
     if (success) {
       return NextResponse.json({ success: true });
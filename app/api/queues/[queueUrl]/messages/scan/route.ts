@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { receiveMessagesOrThrow, releaseMessages, getQueueAttributes, Message, ScanEvent, ScanStopReason } from '@/app/lib/sqs';
+import { compileMessageFilter, parseMessageFilterParams } from '@/app/lib/messageFilter';
+
+const MAX_SCAN_MESSAGES = 10000;
+
+// Scanned messages stay hidden for this long, so every receive returns messages not seen yet
+const MIN_VISIBILITY_TIMEOUT = 10;
+const MAX_VISIBILITY_TIMEOUT = 600;
+
+// The backlog is considered walked after this many consecutive receives without new messages
+const MAX_EMPTY_RECEIVES = 3;
+
+// Stop a little before the first scanned messages become visible again
+const VISIBILITY_MARGIN_MS = 5 * 1000;
+
+/**
+ * Walks the visible backlog of a queue, keeping every received message invisible until the scan ends and
+ * then making all of them visible again. Progress is streamed as NDJSON events.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+
+    const searchParams = request.nextUrl.searchParams;
+    const maxMessages = parseInt(searchParams.get('max') || '1000', 10);
+    const visibilityTimeout = parseInt(searchParams.get('visibilityTimeout') || '60', 10);
+
+    if (!Number.isInteger(maxMessages) || maxMessages < 1 || maxMessages > MAX_SCAN_MESSAGES) {
+      return NextResponse.json({ error: `Max messages must be between 1 and ${MAX_SCAN_MESSAGES}` }, { status: 400 });
+    }
+
+    if (!Number.isInteger(visibilityTimeout) || visibilityTimeout < MIN_VISIBILITY_TIMEOUT || visibilityTimeout > MAX_VISIBILITY_TIMEOUT) {
+      return NextResponse.json({
+        error: `Visibility timeout must be between ${MIN_VISIBILITY_TIMEOUT} and ${MAX_VISIBILITY_TIMEOUT} seconds`,
+      }, { status: 400 });
+    }
+
+    // Coverage counts every scanned message; only the matching ones are sent to the browser
+    const filter = parseMessageFilterParams(searchParams);
+    const { matches, error } = filter ? compileMessageFilter(filter) : {};
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    request.signal.addEventListener('abort', () => {
+      cancelled = true;
+    });
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (event: ScanEvent) => {
+          if (!cancelled) {
+            controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+          }
+        };
+
+        const seenIds = new Set<string>();
+        const receiptHandles: string[] = [];
+        let reason: ScanStopReason = 'complete';
+        let receiveError: string | undefined;
+
+        try {
+          const attributes = await getQueueAttributes(decodedQueueUrl, ['ApproximateNumberOfMessages']);
+          const approximateCount = parseInt(attributes.ApproximateNumberOfMessages || '0', 10);
+          write({ type: 'start', approximateCount });
+
+          const deadline = Date.now() + visibilityTimeout * 1000 - VISIBILITY_MARGIN_MS;
+          let emptyReceives = 0;
+
+          try {
+            while (emptyReceives < MAX_EMPTY_RECEIVES) {
+              if (cancelled) {
+                reason = 'cancelled';
+                break;
+              }
+              if (seenIds.size >= maxMessages) {
+                reason = 'max';
+                break;
+              }
+              if (Date.now() >= deadline) {
+                reason = 'timeout';
+                break;
+              }
+
+              let messages: Message[];
+              try {
+                messages = await receiveMessagesOrThrow(decodedQueueUrl, 10, { visibilityTimeout, waitTimeSeconds: 1 });
+              } catch (error) {
+                // A failing receive must not look like an empty queue, or the scan would report it as complete
+                console.error(`Error receiving messages while scanning ${decodedQueueUrl}:`, error);
+                reason = 'error';
+                receiveError = error instanceof Error ? error.message : 'Failed to receive messages';
+                break;
+              }
+              // Every receipt handle is released at the end, including those of messages received twice
+              receiptHandles.push(...messages.map(message => message.receiptHandle));
+
+              const newMessages = messages.filter(message => !seenIds.has(message.id));
+              newMessages.forEach(message => seenIds.add(message.id));
+              emptyReceives = newMessages.length === 0 ? emptyReceives + 1 : 0;
+
+              if (newMessages.length > 0) {
+                write({ type: 'messages', messages: matches ? newMessages.filter(matches) : newMessages, scanned: seenIds.size });
+              }
+            }
+          } finally {
+            // Also runs when the scan was cancelled, so no message stays hidden until its timeout ends
+            const releaseFailed = await releaseMessages(decodedQueueUrl, receiptHandles);
+            console.log(`Scanned ${seenIds.size} messages of ${decodedQueueUrl} (${reason}), ${releaseFailed} could not be released`);
+            write({ type: 'done', reason, scanned: seenIds.size, approximateCount, releaseFailed, error: receiveError });
+          }
+
+          if (!cancelled) {
+            controller.close();
+          }
+        } catch (error) {
+          console.error(`Error scanning queue ${decodedQueueUrl}:`, error);
+          if (!cancelled) {
+            controller.error(error);
+          }
+        }
+      },
+      cancel() {
+        // The browser stopped the scan; the loop notices and releases the messages
+        cancelled = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error in GET /api/queues/[queueUrl]/messages/scan:', error);
+    return NextResponse.json({ error: 'Failed to scan messages' }, { status: 500 });
+  }
+}
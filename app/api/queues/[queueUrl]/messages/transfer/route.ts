@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { transferMessages } from '@/app/lib/sqs';
+
+// Every request is one pass over the source queue, which ends before the found messages become visible again
+const MAX_MESSAGES_PER_REQUEST = 100;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const { targetQueueUrl, messageIds, mode } = await request.json();
+
+    if (!targetQueueUrl) {
+      return NextResponse.json({ error: 'Target queue URL is required' }, { status: 400 });
+    }
+
+    if (targetQueueUrl === decodedQueueUrl) {
+      return NextResponse.json({ error: 'Target queue must be different from the source queue' }, { status: 400 });
+    }
+
+    if (mode !== 'copy' && mode !== 'move') {
+      return NextResponse.json({ error: 'Mode must be copy or move' }, { status: 400 });
+    }
+
+    if (!Array.isArray(messageIds) || messageIds.length === 0) {
+      return NextResponse.json({ error: 'Message IDs must be a non-empty array' }, { status: 400 });
+    }
+
+    if (messageIds.length > MAX_MESSAGES_PER_REQUEST) {
+      return NextResponse.json({ error: `At most ${MAX_MESSAGES_PER_REQUEST} messages can be transferred at once` }, { status: 400 });
+    }
+
+    const results = await transferMessages(decodedQueueUrl, targetQueueUrl, messageIds, mode);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/messages/transfer:', error);
+    return NextResponse.json({ error: 'Failed to transfer messages' }, { status: 500 });
+  }
+}
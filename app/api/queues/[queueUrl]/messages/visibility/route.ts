@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  changeMessageVisibilityBatch,
+  receiveMessagesById,
+  releaseMessages,
+  lookupFailureReason,
+  ReceivedMessageHandle,
+  VisibilityChangeResult,
+} from '@/app/lib/sqs';
+
+// Messages whose receipt handle expired are looked up with a pass over the queue, so keep requests short
+const MAX_MESSAGES_PER_REQUEST = 20;
+
+// SQS allows a visibility timeout of at most 12 hours
+const MAX_VISIBILITY_TIMEOUT = 12 * 60 * 60;
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    // Consumers turn the lookup off: their expired receipt handle means the message may be with another consumer
+    const { messages, visibilityTimeout, lookup = true } = await request.json();
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json({ error: 'Messages must be a non-empty array' }, { status: 400 });
+    }
+
+    if (messages.length > MAX_MESSAGES_PER_REQUEST) {
+      return NextResponse.json({ error: `At most ${MAX_MESSAGES_PER_REQUEST} messages can be changed per request` }, { status: 400 });
+    }
+
+    if (messages.some((message: ReceivedMessageHandle) => !message?.id || !message.receiptHandle)) {
+      return NextResponse.json({ error: 'Every message needs an ID and a receipt handle' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(visibilityTimeout) || visibilityTimeout < 0 || visibilityTimeout > MAX_VISIBILITY_TIMEOUT) {
+      return NextResponse.json({ error: `Visibility timeout must be between 0 and ${MAX_VISIBILITY_TIMEOUT} seconds` }, { status: 400 });
+    }
+
+    const batchResults = await changeMessageVisibilityBatch(decodedQueueUrl, messages, visibilityTimeout);
+    const results: VisibilityChangeResult[] = batchResults.map((result, index) => (
+      result.success ? { ...result, receiptHandle: messages[index].receiptHandle } : result
+    ));
+
+    // The receipt handle of a peeked message expires once the message is received again, e.g. by the next peek.
+    // Visible messages can still be found with a pass over the queue; messages held by a consumer cannot.
+    const failedIds = results.filter(result => !result.success).map(result => result.id);
+    if (failedIds.length > 0 && lookup) {
+      const lookupResult = await receiveMessagesById(decodedQueueUrl, failedIds);
+      const found = [...lookupResult.found.values()];
+      const retryResults = await changeMessageVisibilityBatch(
+        decodedQueueUrl,
+        found.map(message => ({ id: message.id, receiptHandle: message.receiptHandle })),
+        visibilityTimeout
+      );
+
+      // Found messages whose change failed would otherwise stay hidden for the lookup's visibility timeout
+      const unchanged = found.filter((_, index) => !retryResults[index].success);
+      await releaseMessages(decodedQueueUrl, unchanged.map(message => message.receiptHandle));
+
+      const retried = new Map(retryResults.map((result, index) => [
+        result.id,
+        result.success ? { ...result, receiptHandle: found[index].receiptHandle } : result,
+      ]));
+      results.forEach((result, index) => {
+        if (!result.success) {
+          results[index] = retried.get(result.id) || { ...result, error: lookupFailureReason(lookupResult) };
+        }
+      });
+    }
+
+    const changed = results.filter(result => result.success).length;
+    console.log(`Changed visibility of ${changed} of ${messages.length} messages in ${decodedQueueUrl} to ${visibilityTimeout}s`);
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/messages/visibility:', error);
+    return NextResponse.json({ error: 'Failed to change message visibility' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getQueueMetrics, METRICS_SAMPLE_INTERVAL_MS } from '@/app/lib/queueMetrics';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+
+    const samples = await getQueueMetrics(decodedQueueUrl);
+
+    return NextResponse.json({
+      intervalSeconds: METRICS_SAMPLE_INTERVAL_MS / 1000,
+      samples,
+    });
+  } catch (error) {
+    console.error('Error in GET /api/queues/[queueUrl]/metrics:', error);
+    return NextResponse.json({ error: 'Failed to fetch queue metrics' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeQueue } from '@/app/lib/sqs';
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    
+    const result = await purgeQueue(decodedQueueUrl);
+    
+    if (result.success) {
+      return NextResponse.json({ success: true });
+    }
+    
+    if (result.inProgress) {
+      const waitMessage = result.retryAfterSeconds
+        ? `Try again in ${result.retryAfterSeconds} seconds.`
+        : 'Try again in up to 60 seconds.';
+      
+      return NextResponse.json(
+        {
+          error: `This queue was purged recently and SQS allows one purge every 60 seconds. ${waitMessage}`,
+          retryAfterSeconds: result.retryAfterSeconds,
+        },
+        {
+          status: 409,
+          headers: result.retryAfterSeconds ? { 'Retry-After': result.retryAfterSeconds.toString() } : undefined,
+        }
+      );
+    }
+    
+    return NextResponse.json({ error: 'Failed to purge queue' }, { status: 500 });
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/purge:', error);
+    return NextResponse.json({ error: 'Failed to purge queue' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDeadLetterSourceQueues, redriveMessages, RedriveOptions } from '@/app/lib/sqs';
+
+// Upper bound for a single request so the UI can report progress between batches
+const MAX_MESSAGES_PER_REQUEST = 100;
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    
+    // The queues that send their failed messages to this queue are the natural redrive targets
+    const sourceQueues = await listDeadLetterSourceQueues(decodedQueueUrl);
+    
+    return NextResponse.json({
+      sourceQueues: sourceQueues.map(url => ({
+        url,
+        name: url.split('/').pop() || url,
+      }))
+    });
+  } catch (error) {
+    console.error('Error in GET /api/queues/[queueUrl]/redrive:', error);
+    return NextResponse.json({ error: 'Failed to fetch dead-letter source queues' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const { targetQueueUrl, messageIds, maxMessages } = await request.json();
+    
+    if (!targetQueueUrl) {
+      return NextResponse.json({ error: 'Target queue URL is required' }, { status: 400 });
+    }
+    
+    if (targetQueueUrl === decodedQueueUrl) {
+      return NextResponse.json({ error: 'Target queue must be different from the source queue' }, { status: 400 });
+    }
+    
+    if (messageIds !== undefined && (!Array.isArray(messageIds) || messageIds.length === 0)) {
+      return NextResponse.json({ error: 'Message IDs must be a non-empty array' }, { status: 400 });
+    }
+    
+    if (messageIds && messageIds.length > MAX_MESSAGES_PER_REQUEST) {
+      return NextResponse.json({ error: `At most ${MAX_MESSAGES_PER_REQUEST} message IDs can be redriven at once` }, { status: 400 });
+    }
+    
+    const options: RedriveOptions = {
+      targetQueueUrl,
+      messageIds,
+      maxMessages: messageIds
+        ? messageIds.length
+        : Math.min(Number(maxMessages) || MAX_MESSAGES_PER_REQUEST, MAX_MESSAGES_PER_REQUEST),
+    };
+    
+    const result = await redriveMessages(decodedQueueUrl, options);
+    
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error in POST /api/queues/[queueUrl]/redrive:', error);
+    return NextResponse.json({ error: 'Failed to redrive messages' }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getQueueAttributes } from '@/app/lib/sqs';
+import { getQueueAttributes, updateQueueAttributes, UpdateQueueParams } from '@/app/lib/sqs';
 
 export async function GET(
   request: NextRequest,
@@ -25,4 +25,120 @@ export async function GET(
     console.error('Error in GET /api/queues/[queueUrl]:', error);
     return NextResponse.json({ error: 'Failed to fetch queue details' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+// Allowed ranges for the numeric queue settings, as documented for SetQueueAttributes
+const NUMERIC_SETTINGS: { field: keyof UpdateQueueParams; label: string; min: number; max: number }[] = [
+  { field: 'delaySeconds', label: 'Delay seconds', min: 0, max: 900 },
+  { field: 'messageRetentionPeriod', label: 'Message retention period', min: 60, max: 1209600 },
+  { field: 'visibilityTimeout', label: 'Visibility timeout', min: 0, max: 43200 },
+  { field: 'maxMessageSize', label: 'Maximum message size', min: 1024, max: 262144 },
+  { field: 'receiveMessageWaitTimeSeconds', label: 'Receive message wait time', min: 0, max: 20 },
+  { field: 'maxReceiveCount', label: 'Max receive count', min: 1, max: 1000 },
+];
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const body = await request.json();
+    const isFifo = decodedQueueUrl.endsWith('.fifo');
+    
+    const updateParams: UpdateQueueParams = {};
+    
+    for (const { field, label, min, max } of NUMERIC_SETTINGS) {
+      if (body[field] === undefined) continue;
+      
+      const value = Number(body[field]);
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return NextResponse.json({ error: `${label} must be an integer between ${min} and ${max}` }, { status: 400 });
+      }
+      (updateParams as Record<string, unknown>)[field] = value;
+    }
+    
+    if (body.deadLetterQueueUrl !== undefined) {
+      if (body.deadLetterQueueUrl === decodedQueueUrl) {
+        return NextResponse.json({ error: 'A queue cannot be its own dead-letter queue' }, { status: 400 });
+      }
+      if (body.deadLetterQueueUrl && body.deadLetterQueueUrl.endsWith('.fifo') !== isFifo) {
+        return NextResponse.json({ error: 'The dead-letter queue must be of the same type as the queue' }, { status: 400 });
+      }
+      updateParams.deadLetterQueueUrl = body.deadLetterQueueUrl || null;
+    } else if (updateParams.maxReceiveCount !== undefined) {
+      return NextResponse.json({ error: 'Max receive count can only be changed together with the dead-letter queue' }, { status: 400 });
+    }
+    
+    if (body.redriveAllowPolicy !== undefined) {
+      if (body.redriveAllowPolicy) {
+        const { redrivePermission, sourceQueueUrls } = body.redriveAllowPolicy;
+        
+        if (!['allowAll', 'denyAll', 'byQueue'].includes(redrivePermission)) {
+          return NextResponse.json({ error: 'Redrive permission must be allowAll, denyAll or byQueue' }, { status: 400 });
+        }
+        
+        if (redrivePermission === 'byQueue' && (!Array.isArray(sourceQueueUrls) || sourceQueueUrls.length === 0 || sourceQueueUrls.length > 10)) {
+          return NextResponse.json({ error: 'The byQueue redrive permission requires between 1 and 10 source queues' }, { status: 400 });
+        }
+        
+        updateParams.redriveAllowPolicy = { redrivePermission, sourceQueueUrls };
+      } else {
+        updateParams.redriveAllowPolicy = null;
+      }
+    }
+    
+    const fifoSettingsProvided = body.contentBasedDeduplication !== undefined
+      || body.deduplicationScope !== undefined
+      || body.fifoThroughputLimit !== undefined;
+    
+    if (fifoSettingsProvided && !isFifo) {
+      return NextResponse.json({ error: 'Deduplication and throughput settings only apply to FIFO queues' }, { status: 400 });
+    }
+    
+    if (body.contentBasedDeduplication !== undefined) {
+      updateParams.contentBasedDeduplication = body.contentBasedDeduplication === true;
+    }
+    
+    if (body.deduplicationScope !== undefined) {
+      if (!['messageGroup', 'queue'].includes(body.deduplicationScope)) {
+        return NextResponse.json({ error: 'Deduplication scope must be messageGroup or queue' }, { status: 400 });
+      }
+      updateParams.deduplicationScope = body.deduplicationScope;
+    }
+    
+    if (body.fifoThroughputLimit !== undefined) {
+      if (!['perQueue', 'perMessageGroupId'].includes(body.fifoThroughputLimit)) {
+        return NextResponse.json({ error: 'FIFO throughput limit must be perQueue or perMessageGroupId' }, { status: 400 });
+      }
+      updateParams.fifoThroughputLimit = body.fifoThroughputLimit;
+    }
+    
+    if (body.policy !== undefined) {
+      if (body.policy) {
+        try {
+          JSON.parse(body.policy);
+        } catch {
+          return NextResponse.json({ error: 'Access policy must be valid JSON' }, { status: 400 });
+        }
+      }
+      updateParams.policy = body.policy || null;
+    }
+    
+    if (Object.keys(updateParams).length === 0) {
+      return NextResponse.json({ error: 'No settings to update' }, { status: 400 });
+    }
+    
+    const success = await updateQueueAttributes(decodedQueueUrl, updateParams);
+    
+    if (success) {
+      return NextResponse.json({ success: true });
+    } else {
+      return NextResponse.json({ error: 'Failed to update queue settings' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Error in PATCH /api/queues/[queueUrl]:', error);
+    return NextResponse.json({ error: 'Failed to update queue settings' }, { status: 500 });
+  }
+}
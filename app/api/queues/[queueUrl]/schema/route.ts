@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveProfile } from '@/app/lib/sqs';
+import { getMessageSchema } from '@/app/lib/messageSchemas';
+
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ queueUrl: string }> }
+) {
+  try {
+    const params = await context.params;
+    const decodedQueueUrl = Buffer.from(params.queueUrl, 'base64').toString('utf-8');
+    const queueName = decodedQueueUrl.split('/').pop() || '';
+
+    const profile = await getActiveProfile();
+    const messageSchema = getMessageSchema(profile.name, queueName);
+
+    // Queues without a schema get null, so the browser skips validation
+    return NextResponse.json(messageSchema);
+  } catch (error) {
+    console.error('Error in GET /api/queues/[queueUrl]/schema:', error);
+    return NextResponse.json({ error: 'Failed to fetch message schema' }, { status: 500 });
+  }
+}
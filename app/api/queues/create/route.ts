@@ -36,6 +36,29 @@ export async function POST(request: NextRequest) {
       params.maxMessageSize = Number(body.maxMessageSize);
     }
     
+    if (body.deadLetterQueueUrl) {
+      params.deadLetterQueueUrl = body.deadLetterQueueUrl;
+      params.maxReceiveCount = body.maxReceiveCount !== undefined ? Number(body.maxReceiveCount) : undefined;
+      
+      if (params.maxReceiveCount !== undefined && (!Number.isInteger(params.maxReceiveCount) || params.maxReceiveCount < 1 || params.maxReceiveCount > 1000)) {
+        return NextResponse.json({ error: 'Max receive count must be between 1 and 1000' }, { status: 400 });
+      }
+    }
+    
+    if (body.redriveAllowPolicy) {
+      const { redrivePermission, sourceQueueUrls } = body.redriveAllowPolicy;
+      
+      if (!['allowAll', 'denyAll', 'byQueue'].includes(redrivePermission)) {
+        return NextResponse.json({ error: 'Redrive permission must be allowAll, denyAll or byQueue' }, { status: 400 });
+      }
+      
+      if (redrivePermission === 'byQueue' && (!Array.isArray(sourceQueueUrls) || sourceQueueUrls.length === 0 || sourceQueueUrls.length > 10)) {
+        return NextResponse.json({ error: 'The byQueue redrive permission requires between 1 and 10 source queues' }, { status: 400 });
+      }
+      
+      params.redriveAllowPolicy = { redrivePermission, sourceQueueUrls };
+    }
+    
     console.log('Calling createQueue with params:', params);
     const result = await createQueue(params);
     console.log('Create queue result:', result);
@@ -1,31 +1,97 @@
 import { NextResponse } from 'next/server';
-import { listQueues, getQueueAttributes } from '@/app/lib/sqs';
+import { QueueAttributeName } from '@aws-sdk/client-sqs';
+import { listQueues, getQueueAttributes, getRegions, QueueInfo } from '@/app/lib/sqs';
+
+// Page tokens of a multi-region listing map each region that has more queues to its own SQS page token
+const encodeRegionTokens = (tokens: Record<string, string>) =>
+  Object.keys(tokens).length > 0 ? Buffer.from(JSON.stringify(tokens)).toString('base64') : undefined;
+
+const decodeRegionTokens = (token: string): Record<string, string> =>
+  JSON.parse(Buffer.from(token, 'base64').toString('utf-8'));
 
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
     const nextToken = searchParams.get('nextToken') || undefined;
     const limit = parseInt(searchParams.get('limit') || '10', 10);
-    
-    const { items: queues, nextToken: newNextToken } = await listQueues(nextToken, limit);
-    
-    // Get attributes for each queue
+    // Pickers only need queue names, so allow skipping the per-queue attribute lookups
+    const includeAttributes = searchParams.get('attributes') !== 'false';
+    const region = searchParams.get('region') || undefined;
+    const namePrefix = searchParams.get('prefix') || undefined;
+    // Comma-separated subset of attributes to fetch, so the list only asks SQS for what it displays
+    const attributeNames = (searchParams.get('attributeNames') || 'All').split(',').map(name => name.trim()).filter(Boolean);
+
+    const validAttributeNames: string[] = Object.values(QueueAttributeName);
+    const invalidAttributeNames = attributeNames.filter(name => !validAttributeNames.includes(name));
+    if (invalidAttributeNames.length > 0) {
+      return NextResponse.json({ error: `Unknown queue attributes: ${invalidAttributeNames.join(', ')}` }, { status: 400 });
+    }
+
+    const regions = await getRegions();
+    const isMultiRegion = regions.length > 1;
+
+    if (region && !regions.includes(region)) {
+      return NextResponse.json({ error: `Region ${region} is not configured for this connection profile` }, { status: 400 });
+    }
+
+    let queues: QueueInfo[];
+    let newNextToken: string | undefined;
+    let regionErrors: { region: string; error: string }[] = [];
+
+    if (isMultiRegion) {
+      // Fan out over the regions; a failing region is reported instead of failing the whole list
+      const regionTokens: Record<string, string | undefined> = nextToken
+        ? decodeRegionTokens(nextToken)
+        : Object.fromEntries((region ? [region] : regions).map(r => [r, undefined]));
+
+      const results = await Promise.all(
+        Object.entries(regionTokens).map(async ([queueRegion, token]) => ({
+          region: queueRegion,
+          ...(await listQueues(token, limit, { region: queueRegion, namePrefix })),
+        }))
+      );
+
+      queues = results.flatMap(result => result.items.map(queue => ({ ...queue, region: result.region })));
+      newNextToken = encodeRegionTokens(Object.fromEntries(
+        results.filter(result => result.nextToken).map(result => [result.region, result.nextToken as string])
+      ));
+      regionErrors = results
+        .filter(result => result.error)
+        .map(result => ({ region: result.region, error: result.error as string }));
+    } else {
+      const result = await listQueues(nextToken, limit, { namePrefix });
+      queues = result.items;
+      newNextToken = result.nextToken;
+    }
+
+    const regionInfo = isMultiRegion ? { regions, regionErrors } : {};
+
+    if (!includeAttributes) {
+      return NextResponse.json({
+        items: queues,
+        nextToken: newNextToken,
+        ...regionInfo,
+      });
+    }
+
+    // Get attributes for each queue; the lookups are cached and run with limited concurrency in getQueueAttributes
     const queuesWithAttributes = await Promise.all(
       queues.map(async (queue) => {
-        const attributes = await getQueueAttributes(queue.url);
+        const attributes = await getQueueAttributes(queue.url, attributeNames as QueueAttributeName[]);
         return {
           ...queue,
           attributes,
         };
       })
     );
-    
+
     return NextResponse.json({
       items: queuesWithAttributes,
-      nextToken: newNextToken
+      nextToken: newNextToken,
+      ...regionInfo,
     });
   } catch (error) {
     console.error('Error in /api/queues:', error);
     return NextResponse.json({ error: 'Failed to fetch queues' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Alert } from '../lib/alerts';
+
+// Alerts are evaluated on the server about once a minute
+const POLL_INTERVAL_MS = 30 * 1000;
+
+export const formatAlert = (alert: Alert) =>
+  alert.metric === 'ApproximateAgeOfOldestMessage'
+    ? `${alert.rule}: oldest message is ${Math.round(alert.value)}s old (threshold ${alert.threshold}s)`
+    : `${alert.rule}: ${alert.value} messages (threshold ${alert.threshold})`;
+
+export default function AlertIndicator() {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [ruleCount, setRuleCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchAlerts = async () => {
+      try {
+        const response = await fetch('/api/alerts');
+        if (!response.ok) {
+          throw new Error('Failed to fetch alerts');
+        }
+
+        const data = await response.json();
+        setAlerts(data.alerts);
+        setRuleCount(data.ruleCount);
+      } catch (err) {
+        console.error('Error fetching alerts:', err);
+      }
+    };
+
+    fetchAlerts();
+    const interval = window.setInterval(fetchAlerts, POLL_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, []);
+
+  if (ruleCount === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
+          alerts.length > 0
+            ? 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100'
+            : 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100'
+        }`}
+        title={`${ruleCount} alert rules`}
+      >
+        {alerts.length > 0 ? `${alerts.length} alert${alerts.length === 1 ? '' : 's'} firing` : 'No alerts'}
+      </button>
+      {isOpen && alerts.length > 0 && (
+        <div className="absolute right-0 z-10 mt-2 w-80 rounded-md bg-white dark:bg-gray-800 shadow-lg ring-1 ring-black ring-opacity-5">
+          <ul className="py-1 max-h-80 overflow-y-auto">
+            {alerts.map(alert => (
+              <li key={`${alert.rule}|${alert.queueUrl}`}>
+                <Link
+                  href={`/queues/${Buffer.from(alert.queueUrl).toString('base64')}`}
+                  onClick={() => setIsOpen(false)}
+                  className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <span className="font-medium text-gray-900 dark:text-white">{alert.queueName}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    {formatAlert(alert)} since {new Date(alert.since).toLocaleTimeString()}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
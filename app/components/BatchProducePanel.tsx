@@ -0,0 +1,273 @@
+'use client';
+
+import { useState } from 'react';
+import { BatchSendResult } from '../lib/sqs';
+import {
+  BatchInputFormat,
+  detectBatchInputFormat,
+  parseBatchInput,
+  generateFromTemplate,
+  renderTemplate,
+  randomUuid,
+} from '../lib/batchMessages';
+
+interface BatchProducePanelProps {
+  queueUrl: string; // Base64 encoded queue URL
+  isFifo: boolean;
+  requiresDeduplicationId: boolean;
+  onComplete: () => void;
+}
+
+// Number of messages per API request, so progress can be reported between requests
+const REQUEST_SIZE = 100;
+
+const DEFAULT_TEMPLATE = '{\n  "id": {{seq}},\n  "requestId": "{{uuid}}",\n  "createdAt": "{{timestamp}}",\n  "amount": {{randomInt:1:100}},\n  "status": "{{pick:NEW|PAID|FAILED}}"\n}';
+
+export default function BatchProducePanel({ queueUrl, isFifo, requiresDeduplicationId, onComplete }: BatchProducePanelProps) {
+  const [source, setSource] = useState<'file' | 'template'>('file');
+  const [fileName, setFileName] = useState('');
+  const [fileContent, setFileContent] = useState('');
+  const [format, setFormat] = useState<BatchInputFormat>('ndjson');
+  const [template, setTemplate] = useState(DEFAULT_TEMPLATE);
+  const [count, setCount] = useState('100');
+  const [messageGroupId, setMessageGroupId] = useState('group-1');
+  const [isSending, setIsSending] = useState(false);
+  const [sentCount, setSentCount] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [failures, setFailures] = useState<BatchSendResult['failed']>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    setFileName(file.name);
+    setFileContent(content);
+    setFormat(detectBatchInputFormat(file.name, content));
+    setErrors([]);
+  };
+
+  const handleSend = async () => {
+    let bodies: string[];
+
+    if (source === 'file') {
+      const parsed = parseBatchInput(fileContent, format);
+      if (parsed.errors.length > 0) {
+        setErrors(parsed.errors);
+        return;
+      }
+      bodies = parsed.bodies;
+    } else {
+      const messageCount = Number(count);
+      if (!Number.isInteger(messageCount) || messageCount < 1 || messageCount > 100000) {
+        setErrors(['Number of messages must be between 1 and 100,000']);
+        return;
+      }
+      bodies = generateFromTemplate(template, messageCount);
+    }
+
+    if (bodies.length === 0) {
+      setErrors(['No messages to send']);
+      return;
+    }
+
+    // The group ID may contain placeholders too, e.g. to spread messages over several groups
+    const entries = bodies.map((body, index) => ({
+      body,
+      messageGroupId: isFifo ? renderTemplate(messageGroupId, index + 1) : undefined,
+      messageDeduplicationId: requiresDeduplicationId ? randomUuid() : undefined,
+    }));
+
+    try {
+      setIsSending(true);
+      setErrors([]);
+      setFailures([]);
+      setSentCount(0);
+      setTotalCount(entries.length);
+
+      let sent = 0;
+      for (let offset = 0; offset < entries.length; offset += REQUEST_SIZE) {
+        const response = await fetch(`/api/queues/${queueUrl}/messages/batch`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ entries: entries.slice(offset, offset + REQUEST_SIZE) }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to send messages');
+        }
+
+        const result: BatchSendResult = await response.json();
+        sent += result.successful.length;
+        setSentCount(sent);
+        setFailures(prev => [...prev, ...result.failed.map(failure => ({ ...failure, index: failure.index + offset }))]);
+      }
+
+      onComplete();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to send messages']);
+      console.error('Error sending message batch:', err);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const progressPercent = totalCount > 0 ? Math.round(((sentCount + failures.length) / totalCount) * 100) : 0;
+  const inputClassName = 'mt-1 block w-full border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="inline-flex shadow-sm rounded-md">
+        <button
+          type="button"
+          onClick={() => setSource('file')}
+          className={`relative inline-flex items-center px-3 py-1 rounded-l-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
+            source === 'file'
+              ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100'
+              : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          Upload File
+        </button>
+        <button
+          type="button"
+          onClick={() => setSource('template')}
+          className={`relative inline-flex items-center px-3 py-1 rounded-r-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
+            source === 'template'
+              ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100'
+              : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          Generate from Template
+        </button>
+      </div>
+
+      {source === 'file' ? (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="batchFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Messages File
+            </label>
+            <input
+              type="file"
+              id="batchFile"
+              accept=".json,.ndjson,.jsonl,.csv,.txt"
+              onChange={handleFileChange}
+              className="mt-1 block w-full text-sm text-gray-700 dark:text-gray-300"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              A JSON array of messages, one JSON message per line (NDJSON), or a CSV file whose rows are sent as JSON objects keyed by the header row.
+            </p>
+          </div>
+          {fileName && (
+            <div>
+              <label htmlFor="batchFormat" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Format
+              </label>
+              <select
+                id="batchFormat"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as BatchInputFormat)}
+                className={inputClassName}
+              >
+                <option value="json">JSON array</option>
+                <option value="ndjson">NDJSON</option>
+                <option value="csv">CSV</option>
+              </select>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="batchTemplate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Message Template
+            </label>
+            <textarea
+              id="batchTemplate"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              rows={8}
+              className={`${inputClassName} font-mono`}
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Placeholders: {'{{seq}}'}, {'{{uuid}}'}, {'{{timestamp}}'}, {'{{epoch}}'}, {'{{randomInt:min:max}}'}, {'{{randomFloat:min:max}}'}, {'{{randomString:length}}'}, {'{{pick:a|b|c}}'}
+            </p>
+          </div>
+          <div>
+            <label htmlFor="batchCount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Number of Messages
+            </label>
+            <input
+              type="number"
+              id="batchCount"
+              value={count}
+              onChange={(e) => setCount(e.target.value)}
+              min="1"
+              max="100000"
+              className={inputClassName}
+            />
+          </div>
+        </div>
+      )}
+
+      {isFifo && (
+        <div>
+          <label htmlFor="batchMessageGroupId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Message Group ID *
+          </label>
+          <input
+            type="text"
+            id="batchMessageGroupId"
+            value={messageGroupId}
+            onChange={(e) => setMessageGroupId(e.target.value)}
+            className={`${inputClassName} font-mono`}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Supports the same placeholders as the template, e.g. group-{'{{randomInt:1:5}}'}.
+            {requiresDeduplicationId && ' A unique deduplication ID is generated for every message.'}
+          </p>
+        </div>
+      )}
+
+      {totalCount > 0 && (
+        <div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+            <div className="h-2 bg-indigo-600 dark:bg-indigo-500 transition-all" style={{ width: `${progressPercent}%` }}></div>
+          </div>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {sentCount} of {totalCount} sent{failures.length > 0 && `, ${failures.length} failed`}
+          </p>
+          {failures.length > 0 && (
+            <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-red-600 dark:text-red-400 font-mono">
+              {failures.map(failure => (
+                <li key={failure.index}>Message #{failure.index + 1}: {failure.error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto text-sm text-red-600 dark:text-red-400">
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSend}
+        disabled={isSending || (source === 'file' ? !fileContent : !template.trim()) || (isFifo && !messageGroupId.trim())}
+        className="inline-flex w-full justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {isSending ? 'Sending...' : 'Send Messages'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { BulkDeleteResult } from '../lib/sqs';
+import { MessageFilter } from '../lib/messageFilter';
+
+interface BulkDeleteModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded URL
+  queueName: string;
+  messageIds: string[]; // Selected messages; when empty, the messages matching the filter are deleted
+  filter: MessageFilter;
+  onClose: () => void;
+  onDeleted: (messageIds: string[]) => void;
+}
+
+export default function BulkDeleteModal({
+  isOpen,
+  queueUrl,
+  queueName,
+  messageIds,
+  filter,
+  onClose,
+  onDeleted
+}: BulkDeleteModalProps) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<BulkDeleteResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The targets are captured when the modal opens, as the selection can change when messages are refreshed
+  const [targetIds, setTargetIds] = useState(messageIds);
+  const [targetFilter] = useState(filter);
+  const [isSelection] = useState(messageIds.length > 0);
+
+  const handleDelete = async () => {
+    try {
+      setIsRunning(true);
+      setError(null);
+
+      const response = await fetch(`/api/queues/${queueUrl}/messages/delete`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(isSelection ? { messageIds: targetIds } : { filter: targetFilter }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete messages');
+      }
+
+      const data: BulkDeleteResult = await response.json();
+      setResult(data);
+      onDeleted(data.deleted);
+
+      // Running again only looks for the selected messages that were not deleted yet
+      setTargetIds(prev => prev.filter(id => !data.deleted.includes(id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete messages');
+      console.error('Error deleting messages:', err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={isRunning ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-lg p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Delete Messages
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 disabled:opacity-50"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {isSelection
+                ? <>Delete the {targetIds.length === 1 ? 'selected message' : `${targetIds.length} selected messages`} from <strong className="font-semibold">{queueName}</strong>.</>
+                : <>Delete every message in <strong className="font-semibold">{queueName}</strong> that matches the filter, not only the peeked ones.</>}
+              {' '}The queue is scanned once: matching messages are deleted as they are received and all other messages are made visible again afterwards.
+              Messages held by another consumer are not seen by the scan. This cannot be undone.
+            </p>
+
+            {!isSelection && targetFilter.query && (
+              <p className="mb-4 text-xs font-mono text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded p-2 break-all">
+                {targetFilter.query}
+              </p>
+            )}
+
+            {result && (
+              <div className="mb-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {result.deleted.length} deleted of {result.scanned} scanned
+                  {result.failed.length > 0 && `, ${result.failed.length} failed`}
+                  {result.notFound.length > 0 && `, ${result.notFound.length} not found`}
+                </p>
+                {result.error && (
+                  <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                    The scan stopped with an error: {result.error}
+                  </p>
+                )}
+                {!result.complete && !result.error && (
+                  <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                    The scan stopped before it walked the whole queue; run it again to delete the remaining messages.
+                  </p>
+                )}
+                {result.releaseFailed > 0 && (
+                  <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                    {result.releaseFailed} scanned messages stay hidden until their visibility timeout ends.
+                  </p>
+                )}
+                {result.failed.length > 0 && (
+                  <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-red-600 dark:text-red-400 font-mono">
+                    {result.failed.map((failure, index) => (
+                      <li key={`${failure.id}-${index}`}>{failure.id}: {failure.error}</li>
+                    ))}
+                  </ul>
+                )}
+                {result.notFound.length > 0 && (
+                  <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-yellow-700 dark:text-yellow-400 font-mono">
+                    {result.notFound.map(id => (
+                      <li key={id}>{id}: not found in queue</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isRunning}
+                className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {result ? 'Close' : 'Cancel'}
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isRunning || (result !== null && result.complete) || (isSelection && targetIds.length === 0)}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+              >
+                {isRunning ? 'Deleting...' : result ? 'Run Again' : 'Delete Messages'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
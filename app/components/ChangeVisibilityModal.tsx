@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import { Message, VisibilityChangeResult } from '../lib/sqs';
+
+interface ChangeVisibilityModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded URL
+  messages: Message[];
+  onClose: () => void;
+  // When each changed message becomes visible again, and the receipt handles to change it again with
+  onChanged: (visibleAt: Record<string, number>, receiptHandles: Record<string, string>) => void;
+}
+
+// Number of messages per API request, so results show up while the change runs
+const BATCH_SIZE = 10;
+
+const PRESETS = [
+  { label: 'Release now', seconds: 0 },
+  { label: '30 seconds', seconds: 30 },
+  { label: '5 minutes', seconds: 5 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '12 hours', seconds: 12 * 60 * 60 },
+];
+
+export default function ChangeVisibilityModal({
+  isOpen,
+  queueUrl,
+  messages,
+  onClose,
+  onChanged
+}: ChangeVisibilityModalProps) {
+  const [visibilityTimeout, setVisibilityTimeout] = useState('0');
+  const [isRunning, setIsRunning] = useState(false);
+  const [results, setResults] = useState<VisibilityChangeResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // The messages are captured when the modal opens, as the list can change when messages are refreshed
+  const [targets] = useState(messages);
+
+  const seconds = parseInt(visibilityTimeout, 10);
+  const isValidTimeout = /^\d+$/.test(visibilityTimeout) && seconds <= 12 * 60 * 60;
+
+  const handleChange = async () => {
+    try {
+      setIsRunning(true);
+      setError(null);
+      setResults([]);
+
+      for (let offset = 0; offset < targets.length; offset += BATCH_SIZE) {
+        const response = await fetch(`/api/queues/${queueUrl}/messages/visibility`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            messages: targets.slice(offset, offset + BATCH_SIZE).map(message => ({
+              id: message.id,
+              receiptHandle: message.receiptHandle,
+            })),
+            visibilityTimeout: seconds,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to change message visibility');
+        }
+
+        const data: { results: VisibilityChangeResult[] } = await response.json();
+        setResults(prev => [...prev, ...data.results]);
+
+        const visibleAt = Date.now() + seconds * 1000;
+        const changed = data.results.filter(result => result.success);
+        onChanged(
+          Object.fromEntries(changed.map(result => [result.id, visibleAt])),
+          Object.fromEntries(changed.filter(result => result.receiptHandle).map(result => [result.id, result.receiptHandle as string]))
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to change message visibility');
+      console.error('Error changing message visibility:', err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const succeededCount = results.filter(result => result.success).length;
+  const failedCount = results.length - succeededCount;
+  const isFinished = !isRunning && results.length === targets.length;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={isRunning ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-lg p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Change Visibility
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 disabled:opacity-50"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Hide {targets.length === 1 ? 'the message' : `${targets.length} messages`} from consumers for the given time, counted from now.
+              Use 0 to make {targets.length === 1 ? 'it' : 'them'} visible right away.
+              Messages held by another consumer cannot be changed, as only their receiver has a valid receipt handle.
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="visibilityTimeout" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Visibility Timeout (seconds)
+              </label>
+              <input
+                type="number"
+                id="visibilityTimeout"
+                min="0"
+                max={12 * 60 * 60}
+                value={visibilityTimeout}
+                onChange={(e) => setVisibilityTimeout(e.target.value)}
+                disabled={isRunning}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <div className="mt-2 flex flex-wrap gap-2">
+                {PRESETS.map(preset => (
+                  <button
+                    key={preset.seconds}
+                    type="button"
+                    onClick={() => setVisibilityTimeout(preset.seconds.toString())}
+                    disabled={isRunning}
+                    className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      seconds === preset.seconds
+                        ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {results.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {succeededCount} changed{failedCount > 0 && `, ${failedCount} failed`}
+                </p>
+                {failedCount > 0 && (
+                  <ul className="mt-2 max-h-48 overflow-y-auto text-xs font-mono">
+                    {results.filter(result => !result.success).map(result => (
+                      <li key={result.id} className="text-red-600 dark:text-red-400">
+                        {result.id}: {result.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isRunning}
+                className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isFinished ? 'Close' : 'Cancel'}
+              </button>
+              <button
+                type="button"
+                onClick={handleChange}
+                disabled={isRunning || isFinished || !isValidTimeout}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isRunning ? 'Working...' : seconds === 0 ? 'Release' : 'Change Visibility'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ConnectionProfileSummary } from '../lib/connectionProfiles';
+
+const describeProfile = (profile: ConnectionProfileSummary) =>
+  `${profile.name} (${profile.endpoint ? profile.endpoint.replace(/^https?:\/\//, '') : profile.regions.join(', ')})`;
+
+export default function ConnectionProfileSelect() {
+  const [profiles, setProfiles] = useState<ConnectionProfileSummary[]>([]);
+  const [activeProfile, setActiveProfile] = useState('');
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        const response = await fetch('/api/profiles');
+        if (!response.ok) {
+          throw new Error('Failed to fetch connection profiles');
+        }
+
+        const data = await response.json();
+        setProfiles(data.profiles);
+        setActiveProfile(data.activeProfile);
+      } catch (err) {
+        console.error('Error fetching connection profiles:', err);
+      }
+    };
+
+    fetchProfiles();
+  }, []);
+
+  const handleChange = async (name: string) => {
+    try {
+      setIsSwitching(true);
+
+      const response = await fetch('/api/profiles', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to switch connection profile');
+      }
+
+      // Queue URLs belong to a single account and region, so start over from the queue list
+      window.location.href = '/';
+    } catch (err) {
+      console.error('Error switching connection profile:', err);
+      setIsSwitching(false);
+    }
+  };
+
+  const current = profiles.find(profile => profile.name === activeProfile);
+  if (!current) return null;
+
+  if (profiles.length === 1) {
+    return (
+      <span
+        className="text-sm text-gray-500 dark:text-gray-400"
+        title="Connection profile"
+      >
+        {describeProfile(current)}
+      </span>
+    );
+  }
+
+  return (
+    <select
+      value={activeProfile}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={isSwitching}
+      aria-label="Connection profile"
+      title={current.roleArn ? `Assumes ${current.roleArn}` : 'Connection profile'}
+      className="border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+    >
+      {profiles.map(profile => (
+        <option key={profile.name} value={profile.name}>{describeProfile(profile)}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { useState, useEffect, Fragment } from 'react';
+import { Message, MessageActionResult } from '../lib/sqs';
+import { formatCountdown } from '../lib/messageVisibility';
+import MessageAttributesView from './MessageAttributesView';
+
+interface ConsumePanelProps {
+  queueUrl: string; // Base64 encoded URL
+  isFifo: boolean;
+  onAcknowledged: () => void; // Called after messages were deleted, e.g. to refresh the peeked messages
+}
+
+// A received message with the time its visibility timeout ends
+type HeldMessage = {
+  message: Message;
+  expiresAt: number;
+};
+
+const VISIBILITY_TIMEOUTS = [30, 60, 300, 900];
+
+const WAIT_TIMES = [0, 5, 10, 20];
+
+// Number of messages per acknowledge or visibility request
+const BATCH_SIZE = 20;
+
+const formatBody = (body: string) => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
+
+const selectClassName = 'ml-1 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+const buttonClassName = 'inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50';
+
+export default function ConsumePanel({ queueUrl, isFifo, onAcknowledged }: ConsumePanelProps) {
+  const [visibilityTimeout, setVisibilityTimeout] = useState(30);
+  const [waitTimeSeconds, setWaitTimeSeconds] = useState(10);
+  const [maxMessages, setMaxMessages] = useState(10);
+  const [heldMessages, setHeldMessages] = useState<HeldMessage[]>([]);
+  const [checkedMessageIds, setCheckedMessageIds] = useState<Set<string>>(new Set());
+  const [busyMessageIds, setBusyMessageIds] = useState<Set<string>>(new Set());
+  const [expandedMessageId, setExpandedMessageId] = useState<string | null>(null);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [lastReceiveCount, setLastReceiveCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while messages are held, so the countdowns stay current
+  useEffect(() => {
+    if (heldMessages.length === 0) return;
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [heldMessages.length]);
+
+  const receive = async () => {
+    try {
+      setIsReceiving(true);
+      setError(null);
+
+      const url = new URL(`/api/queues/${queueUrl}/messages`, window.location.origin);
+      url.searchParams.set('mode', 'receive');
+      url.searchParams.set('max', maxMessages.toString());
+      url.searchParams.set('visibilityTimeout', visibilityTimeout.toString());
+      url.searchParams.set('waitTimeSeconds', waitTimeSeconds.toString());
+
+      // The timer starts when SQS returns the messages; starting it before the request errs on the safe side
+      const receivedAt = Date.now();
+      const response = await fetch(url.toString());
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to receive messages');
+      }
+
+      const received: Message[] = await response.json();
+      setLastReceiveCount(received.length);
+      setNow(Date.now());
+      setHeldMessages(prev => [
+        // A message received again replaces the entry with its old receipt handle
+        ...prev.filter(held => !received.some(message => message.id === held.message.id)),
+        ...received.map(message => ({ message, expiresAt: receivedAt + visibilityTimeout * 1000 })),
+      ]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to receive messages');
+      console.error('Error receiving messages:', err);
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
+  // Sends held messages to an action route in batches and returns the outcome per message
+  const runAction = async (targets: HeldMessage[], path: string, extraBody: Record<string, unknown>, fallbackError: string) => {
+    const ids = targets.map(held => held.message.id);
+    setBusyMessageIds(prev => new Set([...prev, ...ids]));
+    setError(null);
+
+    const results: MessageActionResult[] = [];
+    try {
+      for (let offset = 0; offset < targets.length; offset += BATCH_SIZE) {
+        const response = await fetch(`/api/queues/${queueUrl}/messages/${path}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            messages: targets.slice(offset, offset + BATCH_SIZE).map(held => ({
+              id: held.message.id,
+              receiptHandle: held.message.receiptHandle,
+            })),
+            ...extraBody,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || fallbackError);
+        }
+
+        const data: { results: MessageActionResult[] } = await response.json();
+        results.push(...data.results);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      console.error(`${fallbackError}:`, err);
+    } finally {
+      setBusyMessageIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    }
+
+    const failed = results.filter(result => !result.success);
+    if (failed.length > 0) {
+      setError(`${fallbackError} for ${failed.length} message${failed.length === 1 ? '' : 's'}: ${failed[0].error}`);
+    }
+
+    return new Set(results.filter(result => result.success).map(result => result.id));
+  };
+
+  const forget = (ids: Set<string>) => {
+    setHeldMessages(prev => prev.filter(held => !ids.has(held.message.id)));
+    setCheckedMessageIds(prev => new Set([...prev].filter(id => !ids.has(id))));
+  };
+
+  const acknowledge = async (targets: HeldMessage[]) => {
+    const deleted = await runAction(targets, 'acknowledge', {}, 'Failed to acknowledge messages');
+    forget(deleted);
+    if (deleted.size > 0) {
+      onAcknowledged();
+    }
+  };
+
+  const release = async (targets: HeldMessage[]) => {
+    forget(await runAction(targets, 'visibility', { visibilityTimeout: 0, lookup: false }, 'Failed to release messages'));
+  };
+
+  // Extending sets a new visibility timeout counted from now, as ChangeMessageVisibility does.
+  // Like acknowledging, neither releasing nor extending looks up messages whose receipt handle expired.
+  const extend = async (targets: HeldMessage[]) => {
+    const changedAt = Date.now();
+    const changed = await runAction(targets, 'visibility', { visibilityTimeout, lookup: false }, 'Failed to extend visibility');
+    setHeldMessages(prev => prev.map(held =>
+      changed.has(held.message.id) ? { ...held, expiresAt: changedAt + visibilityTimeout * 1000 } : held
+    ));
+  };
+
+  const isExpired = (held: HeldMessage) => held.expiresAt <= now;
+  const activeMessages = heldMessages.filter(held => !isExpired(held));
+  const checkedMessages = activeMessages.filter(held => checkedMessageIds.has(held.message.id));
+  const allChecked = activeMessages.length > 0 && checkedMessages.length === activeMessages.length;
+
+  const toggleChecked = (id: string) => {
+    setCheckedMessageIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow dark:shadow-gray-700 sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="mb-4">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">Consume</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Receive messages like a consumer: they stay hidden until you acknowledge (delete) or release them, or their visibility timeout ends.
+            {isFifo && ' Other messages of the same group are not delivered while a message of the group is held.'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <label className="text-sm text-gray-500 dark:text-gray-400">
+            Visibility timeout
+            <select
+              value={visibilityTimeout}
+              onChange={(e) => setVisibilityTimeout(parseInt(e.target.value, 10))}
+              className={selectClassName}
+            >
+              {VISIBILITY_TIMEOUTS.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-500 dark:text-gray-400">
+            Wait up to
+            <select
+              value={waitTimeSeconds}
+              onChange={(e) => setWaitTimeSeconds(parseInt(e.target.value, 10))}
+              className={selectClassName}
+            >
+              {WAIT_TIMES.map(seconds => (
+                <option key={seconds} value={seconds}>{seconds === 0 ? 'no wait' : `${seconds}s`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-500 dark:text-gray-400">
+            Max messages
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={maxMessages}
+              onChange={(e) => setMaxMessages(Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+              className={`${selectClassName} w-16`}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={receive}
+            disabled={isReceiving}
+            className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {isReceiving ? (waitTimeSeconds > 0 ? 'Waiting...' : 'Receiving...') : 'Receive'}
+          </button>
+          {lastReceiveCount !== null && !isReceiving && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {lastReceiveCount === 0 ? 'No messages received' : `Received ${lastReceiveCount} message${lastReceiveCount === 1 ? '' : 's'}`}
+            </span>
+          )}
+        </div>
+
+        {heldMessages.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <button
+              type="button"
+              onClick={() => acknowledge(checkedMessages)}
+              disabled={checkedMessages.length === 0}
+              className={buttonClassName}
+            >
+              {checkedMessages.length > 0 ? `Ack selected (${checkedMessages.length})` : 'Ack selected'}
+            </button>
+            <button
+              type="button"
+              onClick={() => release(checkedMessages)}
+              disabled={checkedMessages.length === 0}
+              className={buttonClassName}
+            >
+              {checkedMessages.length > 0 ? `Nack selected (${checkedMessages.length})` : 'Nack selected'}
+            </button>
+            <button
+              type="button"
+              onClick={() => release(activeMessages)}
+              disabled={activeMessages.length === 0}
+              className={buttonClassName}
+            >
+              Release all
+            </button>
+            {heldMessages.length > activeMessages.length && (
+              <button
+                type="button"
+                onClick={() => forget(new Set(heldMessages.filter(isExpired).map(held => held.message.id)))}
+                className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+              >
+                Clear expired
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {heldMessages.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400 py-4 text-center">
+            No messages held. Received messages show up here until they are acknowledged or released.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-800">
+                <tr>
+                  <th scope="col" className="pl-6 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all held messages"
+                      checked={allChecked}
+                      onChange={() => setCheckedMessageIds(allChecked ? new Set() : new Set(activeMessages.map(held => held.message.id)))}
+                      className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                    />
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Message ID
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Receive Count
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Hidden For
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Preview
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {heldMessages.map(held => {
+                  const { message } = held;
+                  const expired = isExpired(held);
+                  const busy = busyMessageIds.has(message.id);
+
+                  return (
+                    <Fragment key={message.id}>
+                      <tr
+                        className={`hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer ${expired ? 'opacity-50' : ''}`}
+                        onClick={() => setExpandedMessageId(expandedMessageId === message.id ? null : message.id)}
+                      >
+                        <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select message ${message.id}`}
+                            checked={!expired && checkedMessageIds.has(message.id)}
+                            onChange={() => toggleChecked(message.id)}
+                            disabled={expired}
+                            className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                          />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400 max-w-[350px] truncate">
+                          {message.id}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                          {message.attributes?.ApproximateReceiveCount || '-'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {expired ? (
+                            <span
+                              className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300"
+                              title="The visibility timeout ended, so the message can be delivered again and this receipt handle no longer works"
+                            >
+                              Expired
+                            </span>
+                          ) : (
+                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100">
+                              {formatCountdown(held.expiresAt - now)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-[300px] truncate font-mono">
+                          {message.body.substring(0, 60) + (message.body.length > 60 ? '...' : '')}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3" onClick={(e) => e.stopPropagation()}>
+                          <button
+                            onClick={() => acknowledge([held])}
+                            disabled={expired || busy}
+                            className="text-red-600 dark:text-red-400 hover:text-red-900 dark:hover:text-red-300 disabled:opacity-50"
+                          >
+                            Ack
+                          </button>
+                          <button
+                            onClick={() => release([held])}
+                            disabled={expired || busy}
+                            className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300 disabled:opacity-50"
+                          >
+                            Nack
+                          </button>
+                          <button
+                            onClick={() => extend([held])}
+                            disabled={expired || busy}
+                            title={`Hide the message for another ${visibilityTimeout}s from now`}
+                            className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300 disabled:opacity-50"
+                          >
+                            Extend
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedMessageId === message.id && (
+                        <tr className="bg-gray-50 dark:bg-gray-700">
+                          <td colSpan={6} className="px-6 py-4">
+                            <pre className="text-xs font-mono text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-all max-h-80 overflow-y-auto">
+                              {formatBody(message.body)}
+                            </pre>
+                            <MessageAttributesView message={message} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
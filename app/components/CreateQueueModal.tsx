@@ -1,7 +1,8 @@
 'use client';
 
-import { useState } from 'react';
-import { CreateQueueParams } from '../lib/sqs';
+import { useState, useEffect } from 'react';
+import { CreateQueueParams, QueueInfo } from '../lib/sqs';
+import { RedrivePermission } from '../lib/redrivePolicy';
 
 interface CreateQueueModalProps {
   isOpen: boolean;
@@ -19,6 +20,36 @@ export default function CreateQueueModal({ isOpen, onClose, onSuccess }: CreateQ
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [existingQueues, setExistingQueues] = useState<QueueInfo[]>([]);
+  const [deadLetterQueueUrl, setDeadLetterQueueUrl] = useState('');
+  const [maxReceiveCount, setMaxReceiveCount] = useState('');
+  const [redrivePermission, setRedrivePermission] = useState<RedrivePermission | ''>('');
+  const [redriveSourceQueueUrls, setRedriveSourceQueueUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen || !showAdvanced) return;
+    
+    // Load the queues that can be picked as dead-letter queue or allowed redrive source
+    const fetchExistingQueues = async () => {
+      try {
+        const response = await fetch('/api/queues?limit=1000&attributes=false');
+        
+        if (!response.ok) {
+          throw new Error(`Failed to fetch queues: ${response.statusText}`);
+        }
+        
+        const data = await response.json();
+        setExistingQueues(data.items);
+      } catch (err) {
+        console.error('Error fetching existing queues:', err);
+      }
+    };
+    
+    fetchExistingQueues();
+  }, [isOpen, showAdvanced]);
+  
+  // A dead-letter queue must be of the same type (standard or FIFO) as its source queue
+  const deadLetterQueueCandidates = existingQueues.filter(queue => queue.url.endsWith('.fifo') === isFifo);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -59,6 +90,25 @@ export default function CreateQueueModal({ isOpen, onClose, onSuccess }: CreateQ
       params.maxMessageSize = Number(maxMessageSize);
     }
     
+    if (deadLetterQueueUrl) {
+      params.deadLetterQueueUrl = deadLetterQueueUrl;
+      if (maxReceiveCount) {
+        params.maxReceiveCount = Number(maxReceiveCount);
+      }
+    }
+    
+    if (redrivePermission) {
+      if (redrivePermission === 'byQueue' && redriveSourceQueueUrls.length === 0) {
+        setError('Select at least one source queue that may use this queue as its dead-letter queue');
+        return;
+      }
+      
+      params.redriveAllowPolicy = {
+        redrivePermission,
+        sourceQueueUrls: redrivePermission === 'byQueue' ? redriveSourceQueueUrls : undefined,
+      };
+    }
+    
     try {
       setIsSubmitting(true);
       setError(null);
@@ -91,6 +141,10 @@ export default function CreateQueueModal({ isOpen, onClose, onSuccess }: CreateQ
       setMessageRetentionPeriod('');
       setVisibilityTimeout('');
       setMaxMessageSize('');
+      setDeadLetterQueueUrl('');
+      setMaxReceiveCount('');
+      setRedrivePermission('');
+      setRedriveSourceQueueUrls([]);
       setShowAdvanced(false);
       
       // Close modal and refresh queue list
@@ -159,7 +213,12 @@ export default function CreateQueueModal({ isOpen, onClose, onSuccess }: CreateQ
                   id="isFifo"
                   type="checkbox"
                   checked={isFifo}
-                  onChange={(e) => setIsFifo(e.target.checked)}
+                  onChange={(e) => {
+                    setIsFifo(e.target.checked);
+                    // Previously picked queues may no longer match the queue type
+                    setDeadLetterQueueUrl('');
+                    setRedriveSourceQueueUrls([]);
+                  }}
                   className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
                 />
                 <label htmlFor="isFifo" className="ml-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -268,6 +327,89 @@ export default function CreateQueueModal({ isOpen, onClose, onSuccess }: CreateQ
                     The maximum message size in bytes (1,024-262,144 bytes / 1 KB to 256 KB).
                   </p>
                 </div>
+                
+                <div>
+                  <label htmlFor="deadLetterQueueUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Dead-letter Queue
+                  </label>
+                  <select
+                    id="deadLetterQueueUrl"
+                    value={deadLetterQueueUrl}
+                    onChange={(e) => setDeadLetterQueueUrl(e.target.value)}
+                    className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">None</option>
+                    {deadLetterQueueCandidates.map(queue => (
+                      <option key={queue.url} value={queue.url}>{queue.name}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Messages that fail processing too many times are moved to this queue. It must be a {isFifo ? 'FIFO' : 'standard'} queue.
+                  </p>
+                </div>
+                
+                {deadLetterQueueUrl && (
+                  <div>
+                    <label htmlFor="maxReceiveCount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Maximum Receives
+                    </label>
+                    <input
+                      type="number"
+                      id="maxReceiveCount"
+                      value={maxReceiveCount}
+                      onChange={(e) => setMaxReceiveCount(e.target.value)}
+                      min="1"
+                      max="1000"
+                      className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                      placeholder="10"
+                    />
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      The number of times a message is received before it is moved to the dead-letter queue (1-1,000).
+                    </p>
+                  </div>
+                )}
+                
+                <div>
+                  <label htmlFor="redrivePermission" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Redrive Allow Policy
+                  </label>
+                  <select
+                    id="redrivePermission"
+                    value={redrivePermission}
+                    onChange={(e) => setRedrivePermission(e.target.value as RedrivePermission | '')}
+                    className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">Not set</option>
+                    <option value="allowAll">Allow all source queues</option>
+                    <option value="denyAll">Deny all source queues</option>
+                    <option value="byQueue">Allow specific source queues</option>
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Controls which queues may use this queue as their dead-letter queue.
+                  </p>
+                </div>
+                
+                {redrivePermission === 'byQueue' && (
+                  <div>
+                    <label htmlFor="redriveSourceQueueUrls" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Allowed Source Queues
+                    </label>
+                    <select
+                      id="redriveSourceQueueUrls"
+                      multiple
+                      value={redriveSourceQueueUrls}
+                      onChange={(e) => setRedriveSourceQueueUrls(Array.from(e.target.selectedOptions, option => option.value))}
+                      className="mt-1 block w-full h-32 border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      {deadLetterQueueCandidates.map(queue => (
+                        <option key={queue.url} value={queue.url}>{queue.name}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Select up to 10 queues.
+                    </p>
+                  </div>
+                )}
               </div>
             )}
             
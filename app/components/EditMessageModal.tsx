@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Message, MessageAttribute, QueueInfo, ReplaceResult } from '../lib/sqs';
+import AceEditor from 'react-ace';
+import 'ace-builds/src-noconflict/mode-json';
+import 'ace-builds/src-noconflict/theme-dracula';
+
+interface EditMessageModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded URL of the queue the message is in
+  queueName: string;
+  message: Message;
+  onClose: () => void;
+  onReplaced: (messageId: string) => void;
+}
+
+type MessageAttributeRow = {
+  name: string;
+  dataType: string;
+  value: string;
+};
+
+// Set on the edited copy by the server, so they are not edited here
+const TRACING_ATTRIBUTES = ['OriginalMessageId', 'EditedAt'];
+
+// SQS accepts at most 10 message attributes, two of which are used for tracing
+const MAX_EDITABLE_ATTRIBUTES = 10 - TRACING_ATTRIBUTES.length;
+
+const inputClassName = 'border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+const isJson = (body: string) => {
+  try {
+    JSON.parse(body);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export default function EditMessageModal({
+  isOpen,
+  queueUrl,
+  queueName,
+  message,
+  onClose,
+  onReplaced
+}: EditMessageModalProps) {
+  const [body, setBody] = useState(message.body);
+  const [attributeRows, setAttributeRows] = useState<MessageAttributeRow[]>(() =>
+    Object.entries(message.messageAttributes || {})
+      .filter(([name]) => !TRACING_ATTRIBUTES.includes(name))
+      .map(([name, attribute]) => ({ name, dataType: attribute.dataType, value: attribute.binaryValue ?? attribute.stringValue ?? '' }))
+  );
+  const [queues, setQueues] = useState<QueueInfo[]>([]);
+  const [targetQueueUrl, setTargetQueueUrl] = useState(''); // Empty for the queue the message is in
+  const [messageGroupId, setMessageGroupId] = useState(message.attributes?.MessageGroupId || '');
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<ReplaceResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentQueueUrl = Buffer.from(queueUrl, 'base64').toString('utf-8');
+  const isFifoTarget = (targetQueueUrl || currentQueueUrl).endsWith('.fifo');
+  const wasJson = isJson(message.body);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchQueues = async () => {
+      try {
+        const response = await fetch('/api/queues?limit=1000&attributes=false');
+        if (!response.ok) {
+          throw new Error('Failed to fetch queues');
+        }
+
+        const { items } = await response.json();
+        setQueues((items as QueueInfo[]).filter(queue => queue.url !== currentQueueUrl));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch queues');
+        console.error('Error fetching queues:', err);
+      }
+    };
+
+    fetchQueues();
+  }, [isOpen, currentQueueUrl]);
+
+  const handleReplace = async () => {
+    try {
+      setIsRunning(true);
+      setError(null);
+
+      // Rows without a name are treated as empty and skipped
+      const messageAttributes: Record<string, MessageAttribute> = {};
+      for (const row of attributeRows.filter(row => row.name.trim())) {
+        messageAttributes[row.name.trim()] = row.dataType.startsWith('Binary')
+          ? { dataType: row.dataType, binaryValue: row.value.trim() }
+          : { dataType: row.dataType, stringValue: row.value };
+      }
+
+      const response = await fetch(`/api/queues/${queueUrl}/messages/replace`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messageId: message.id,
+          targetQueueUrl: targetQueueUrl || undefined,
+          message: body,
+          messageAttributes,
+          messageGroupId: isFifoTarget ? messageGroupId : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to replace message');
+      }
+
+      const data: ReplaceResult = await response.json();
+      setResult(data);
+      if (data.success) {
+        onReplaced(message.id);
+      } else {
+        setError(data.error || 'Failed to replace message');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to replace message');
+      console.error('Error replacing message:', err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const isDone = result?.success === true;
+  const isValid = body.length > 0 && (!isFifoTarget || messageGroupId.trim().length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={isRunning ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-3xl p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Edit and Resend
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 disabled:opacity-50"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Send an edited copy of <span className="font-mono">{message.id}</span> and delete the original from <strong className="font-semibold">{queueName}</strong> once the copy was sent.
+              The copy gets the original message ID and the edit time as the {TRACING_ATTRIBUTES.join(' and ')} attributes.
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="replaceTargetQueue" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Send To
+              </label>
+              <select
+                id="replaceTargetQueue"
+                value={targetQueueUrl}
+                onChange={(e) => setTargetQueueUrl(e.target.value)}
+                disabled={isRunning || isDone}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">{queueName} (replace in place)</option>
+                {queues.map(queue => (
+                  <option key={queue.url} value={queue.url}>{queue.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <div className="flex justify-between items-center">
+                <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Message Body</span>
+                {wasJson && (
+                  <button
+                    type="button"
+                    onClick={() => setBody(JSON.stringify(JSON.parse(body), null, 2))}
+                    disabled={!isJson(body) || isRunning || isDone}
+                    className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300 disabled:opacity-50"
+                  >
+                    Format JSON
+                  </button>
+                )}
+              </div>
+              <div className="mt-1">
+                <AceEditor
+                  mode={wasJson ? 'json' : 'text'}
+                  theme="dracula"
+                  value={body}
+                  onChange={setBody}
+                  readOnly={isRunning || isDone}
+                  name="edit-message-editor"
+                  editorProps={{ $blockScrolling: true }}
+                  setOptions={{
+                    showLineNumbers: true,
+                    tabSize: 2,
+                    useWorker: false,
+                  }}
+                  width="100%"
+                  height="280px"
+                  fontSize={14}
+                  showPrintMargin={false}
+                  className={`rounded-md border ${!wasJson || isJson(body) ? 'border-gray-300 dark:border-gray-600' : 'border-red-500 dark:border-red-500'}`}
+                />
+              </div>
+              {wasJson && !isJson(body) && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+                  The original body was JSON, but the edited body is not.
+                </p>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <div className="flex justify-between items-center">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Message Attributes</span>
+                <button
+                  type="button"
+                  onClick={() => setAttributeRows([...attributeRows, { name: '', dataType: 'String', value: '' }])}
+                  disabled={attributeRows.length >= MAX_EDITABLE_ATTRIBUTES || isRunning || isDone}
+                  className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300 disabled:opacity-50"
+                >
+                  + Add Attribute
+                </button>
+              </div>
+              {attributeRows.map((row, index) => (
+                <div key={index} className="mt-2 flex space-x-2">
+                  <input
+                    type="text"
+                    value={row.name}
+                    onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, name: e.target.value } : r))}
+                    disabled={isRunning || isDone}
+                    placeholder="Name"
+                    className={`w-1/3 ${inputClassName}`}
+                  />
+                  <input
+                    type="text"
+                    value={row.dataType}
+                    onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, dataType: e.target.value } : r))}
+                    disabled={isRunning || isDone}
+                    aria-label="Data type"
+                    list="edit-message-data-types"
+                    className={`w-28 ${inputClassName}`}
+                  />
+                  <input
+                    type="text"
+                    value={row.value}
+                    onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, value: e.target.value } : r))}
+                    disabled={isRunning || isDone}
+                    placeholder={row.dataType.startsWith('Binary') ? 'Base64 value' : 'Value'}
+                    className={`flex-1 min-w-0 ${inputClassName} font-mono`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setAttributeRows(attributeRows.filter((_, i) => i !== index))}
+                    disabled={isRunning || isDone}
+                    className="text-gray-400 hover:text-red-500"
+                  >
+                    <span className="sr-only">Remove attribute</span>
+                    <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+              <datalist id="edit-message-data-types">
+                <option value="String" />
+                <option value="Number" />
+                <option value="Binary" />
+              </datalist>
+            </div>
+
+            {isFifoTarget && (
+              <div className="mb-4">
+                <label htmlFor="replaceMessageGroupId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Message Group ID *
+                </label>
+                <input
+                  type="text"
+                  id="replaceMessageGroupId"
+                  value={messageGroupId}
+                  onChange={(e) => setMessageGroupId(e.target.value)}
+                  disabled={isRunning || isDone}
+                  className={`mt-1 block w-full ${inputClassName}`}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  The copy gets its own deduplication ID, so it is not dropped as a duplicate of the original.
+                </p>
+              </div>
+            )}
+
+            {isDone && (
+              <div className="mb-4 text-sm text-green-600 dark:text-green-400">
+                Replaced with message <span className="font-mono">{result?.targetMessageId}</span>.
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+                {result?.targetMessageId && (
+                  <> The edited copy was sent as <span className="font-mono">{result.targetMessageId}</span>.</>
+                )}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isRunning}
+                className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isDone ? 'Close' : 'Cancel'}
+              </button>
+              <button
+                type="button"
+                onClick={handleReplace}
+                disabled={isRunning || isDone || !isValid || result?.targetMessageId !== undefined}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isRunning ? 'Replacing...' : targetQueueUrl ? 'Send and Delete Original' : 'Replace Message'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
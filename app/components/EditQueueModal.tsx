@@ -0,0 +1,559 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { QueueInfo } from '../lib/sqs';
+import {
+  RedrivePermission,
+  parseRedrivePolicy,
+  parseRedriveAllowPolicy,
+  queueUrlFromArn,
+} from '../lib/redrivePolicy';
+
+interface EditQueueModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded queue URL
+  queueInfo: QueueInfo;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type SettingsForm = {
+  visibilityTimeout: string;
+  delaySeconds: string;
+  messageRetentionPeriod: string;
+  maxMessageSize: string;
+  receiveMessageWaitTimeSeconds: string;
+  deadLetterQueueUrl: string;
+  maxReceiveCount: string;
+  redrivePermission: RedrivePermission | '';
+  redriveSourceQueueUrls: string[];
+  contentBasedDeduplication: boolean;
+  deduplicationScope: string;
+  fifoThroughputLimit: string;
+  policy: string;
+};
+
+type SettingChange = {
+  label: string;
+  before: string;
+  after: string;
+};
+
+type NumericField = 'visibilityTimeout' | 'delaySeconds' | 'messageRetentionPeriod' | 'maxMessageSize' | 'receiveMessageWaitTimeSeconds';
+
+const NUMERIC_FIELDS: { field: NumericField; label: string; min: number; max: number; help: string }[] = [
+  { field: 'visibilityTimeout', label: 'Visibility Timeout (seconds)', min: 0, max: 43200, help: '0-43,200 seconds / 0 seconds to 12 hours' },
+  { field: 'delaySeconds', label: 'Delay Seconds', min: 0, max: 900, help: '0-900 seconds' },
+  { field: 'messageRetentionPeriod', label: 'Message Retention Period (seconds)', min: 60, max: 1209600, help: '60-1,209,600 seconds / 1 minute to 14 days' },
+  { field: 'maxMessageSize', label: 'Maximum Message Size (bytes)', min: 1024, max: 262144, help: '1,024-262,144 bytes / 1 KB to 256 KB' },
+  { field: 'receiveMessageWaitTimeSeconds', label: 'Receive Message Wait Time (seconds)', min: 0, max: 20, help: '0-20 seconds, enables long polling when above 0' },
+];
+
+// Builds the form values from the queue attributes as returned by GetQueueAttributes
+function settingsFromAttributes(queueUrl: string, attributes: Record<string, string> = {}): SettingsForm {
+  const redrivePolicy = parseRedrivePolicy(attributes);
+  const redriveAllowPolicy = parseRedriveAllowPolicy(attributes);
+
+  let policy = attributes.Policy || '';
+  try {
+    policy = policy ? JSON.stringify(JSON.parse(policy), null, 2) : '';
+  } catch {
+    // Keep the policy as is if it cannot be parsed
+  }
+
+  return {
+    visibilityTimeout: attributes.VisibilityTimeout || '',
+    delaySeconds: attributes.DelaySeconds || '',
+    messageRetentionPeriod: attributes.MessageRetentionPeriod || '',
+    maxMessageSize: attributes.MaximumMessageSize || '',
+    receiveMessageWaitTimeSeconds: attributes.ReceiveMessageWaitTimeSeconds || '',
+    deadLetterQueueUrl: redrivePolicy ? queueUrlFromArn(redrivePolicy.deadLetterTargetArn, queueUrl) : '',
+    maxReceiveCount: redrivePolicy ? redrivePolicy.maxReceiveCount.toString() : '',
+    redrivePermission: redriveAllowPolicy?.redrivePermission || '',
+    redriveSourceQueueUrls: (redriveAllowPolicy?.sourceQueueArns || []).map(arn => queueUrlFromArn(arn, queueUrl)),
+    contentBasedDeduplication: attributes.ContentBasedDeduplication === 'true',
+    deduplicationScope: attributes.DeduplicationScope || 'queue',
+    fifoThroughputLimit: attributes.FifoThroughputLimit || 'perQueue',
+    policy,
+  };
+}
+
+const queueNameFromUrl = (url: string) => url.split('/').pop() || url;
+
+export default function EditQueueModal({ isOpen, queueUrl, queueInfo, onClose, onSuccess }: EditQueueModalProps) {
+  const isFifo = queueInfo.attributes?.FifoQueue === 'true';
+  const [initialSettings, setInitialSettings] = useState<SettingsForm>(() => settingsFromAttributes(queueInfo.url, queueInfo.attributes));
+  const [settings, setSettings] = useState<SettingsForm>(initialSettings);
+  const [existingQueues, setExistingQueues] = useState<QueueInfo[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Start from the latest attributes every time the modal is opened
+    const current = settingsFromAttributes(queueInfo.url, queueInfo.attributes);
+    setInitialSettings(current);
+    setSettings(current);
+    setIsReviewing(false);
+    setError(null);
+
+    const fetchExistingQueues = async () => {
+      try {
+        const response = await fetch('/api/queues?limit=1000&attributes=false');
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch queues: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        setExistingQueues((data.items as QueueInfo[]).filter(queue => queue.url !== queueInfo.url));
+      } catch (err) {
+        console.error('Error fetching existing queues:', err);
+      }
+    };
+
+    fetchExistingQueues();
+  }, [isOpen, queueInfo]);
+
+  const updateSetting = <K extends keyof SettingsForm>(field: K, value: SettingsForm[K]) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  // A dead-letter queue must be of the same type (standard or FIFO) as its source queue
+  const sameTypeQueues = existingQueues.filter(queue => queue.url.endsWith('.fifo') === isFifo);
+
+  const getChanges = (): SettingChange[] => {
+    const changes: SettingChange[] = [];
+
+    for (const { field, label } of NUMERIC_FIELDS) {
+      if (settings[field] !== initialSettings[field]) {
+        changes.push({ label, before: initialSettings[field] || '-', after: settings[field] || '-' });
+      }
+    }
+
+    if (settings.deadLetterQueueUrl !== initialSettings.deadLetterQueueUrl) {
+      changes.push({
+        label: 'Dead-letter Queue',
+        before: initialSettings.deadLetterQueueUrl ? queueNameFromUrl(initialSettings.deadLetterQueueUrl) : 'None',
+        after: settings.deadLetterQueueUrl ? queueNameFromUrl(settings.deadLetterQueueUrl) : 'None',
+      });
+    }
+
+    if (settings.deadLetterQueueUrl && settings.maxReceiveCount !== initialSettings.maxReceiveCount) {
+      changes.push({ label: 'Maximum Receives', before: initialSettings.maxReceiveCount || '-', after: settings.maxReceiveCount || '10' });
+    }
+
+    if (settings.redrivePermission !== initialSettings.redrivePermission
+      || settings.redriveSourceQueueUrls.join() !== initialSettings.redriveSourceQueueUrls.join()) {
+      const describe = (form: SettingsForm) => form.redrivePermission === 'byQueue'
+        ? `byQueue: ${form.redriveSourceQueueUrls.map(queueNameFromUrl).join(', ')}`
+        : form.redrivePermission || 'Not set';
+      changes.push({ label: 'Redrive Allow Policy', before: describe(initialSettings), after: describe(settings) });
+    }
+
+    if (isFifo) {
+      if (settings.contentBasedDeduplication !== initialSettings.contentBasedDeduplication) {
+        changes.push({
+          label: 'Content-based Deduplication',
+          before: initialSettings.contentBasedDeduplication ? 'Enabled' : 'Disabled',
+          after: settings.contentBasedDeduplication ? 'Enabled' : 'Disabled',
+        });
+      }
+      if (settings.deduplicationScope !== initialSettings.deduplicationScope) {
+        changes.push({ label: 'Deduplication Scope', before: initialSettings.deduplicationScope, after: settings.deduplicationScope });
+      }
+      if (settings.fifoThroughputLimit !== initialSettings.fifoThroughputLimit) {
+        changes.push({ label: 'FIFO Throughput Limit', before: initialSettings.fifoThroughputLimit, after: settings.fifoThroughputLimit });
+      }
+    }
+
+    if (settings.policy.trim() !== initialSettings.policy.trim()) {
+      changes.push({
+        label: 'Access Policy',
+        before: initialSettings.policy ? 'Custom policy' : 'None',
+        after: settings.policy.trim() ? 'Updated policy' : 'None',
+      });
+    }
+
+    return changes;
+  };
+
+  const validate = (): string | null => {
+    for (const { field, label, min, max } of NUMERIC_FIELDS) {
+      const value = Number(settings[field]);
+      if (settings[field] !== initialSettings[field] && (!Number.isInteger(value) || value < min || value > max)) {
+        return `${label} must be an integer between ${min} and ${max}`;
+      }
+    }
+
+    if (settings.redrivePermission === 'byQueue' && settings.redriveSourceQueueUrls.length === 0) {
+      return 'Select at least one source queue that may use this queue as its dead-letter queue';
+    }
+
+    if (settings.policy.trim()) {
+      try {
+        JSON.parse(settings.policy);
+      } catch (e) {
+        return 'Invalid access policy JSON: ' + (e instanceof Error ? e.message : 'Unknown error');
+      }
+    }
+
+    return null;
+  };
+
+  const handleReview = () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    setIsReviewing(true);
+  };
+
+  const handleApply = async () => {
+    // Only send the settings that were actually changed
+    const body: Record<string, unknown> = {};
+
+    for (const { field } of NUMERIC_FIELDS) {
+      if (settings[field] !== initialSettings[field]) {
+        body[field] = Number(settings[field]);
+      }
+    }
+
+    if (settings.deadLetterQueueUrl !== initialSettings.deadLetterQueueUrl
+      || (settings.deadLetterQueueUrl && settings.maxReceiveCount !== initialSettings.maxReceiveCount)) {
+      body.deadLetterQueueUrl = settings.deadLetterQueueUrl || null;
+      if (settings.deadLetterQueueUrl && settings.maxReceiveCount) {
+        body.maxReceiveCount = Number(settings.maxReceiveCount);
+      }
+    }
+
+    if (settings.redrivePermission !== initialSettings.redrivePermission
+      || settings.redriveSourceQueueUrls.join() !== initialSettings.redriveSourceQueueUrls.join()) {
+      body.redriveAllowPolicy = settings.redrivePermission
+        ? {
+          redrivePermission: settings.redrivePermission,
+          sourceQueueUrls: settings.redrivePermission === 'byQueue' ? settings.redriveSourceQueueUrls : undefined,
+        }
+        : null;
+    }
+
+    if (isFifo) {
+      if (settings.contentBasedDeduplication !== initialSettings.contentBasedDeduplication) {
+        body.contentBasedDeduplication = settings.contentBasedDeduplication;
+      }
+      if (settings.deduplicationScope !== initialSettings.deduplicationScope) {
+        body.deduplicationScope = settings.deduplicationScope;
+      }
+      if (settings.fifoThroughputLimit !== initialSettings.fifoThroughputLimit) {
+        body.fifoThroughputLimit = settings.fifoThroughputLimit;
+      }
+    }
+
+    if (settings.policy.trim() !== initialSettings.policy.trim()) {
+      body.policy = settings.policy.trim() || null;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch(`/api/queues/${queueUrl}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update queue settings');
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update queue settings');
+      console.error('Error updating queue settings:', err);
+      setIsReviewing(false);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const changes = getChanges();
+  const inputClassName = 'mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-lg p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              {isReviewing ? 'Review Changes' : 'Edit Settings'}
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              onClick={onClose}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {isReviewing ? (
+            <div className="mt-4">
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                The following settings of <strong className="font-semibold">{queueInfo.name}</strong> will be changed:
+              </p>
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead>
+                  <tr>
+                    <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Setting</th>
+                    <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Current</th>
+                    <th className="py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">New</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {changes.map(change => (
+                    <tr key={change.label}>
+                      <td className="py-2 pr-2 text-gray-900 dark:text-white">{change.label}</td>
+                      <td className="py-2 pr-2 text-red-600 dark:text-red-400 line-through break-all">{change.before}</td>
+                      <td className="py-2 text-green-700 dark:text-green-400 break-all">{change.after}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {error && (
+                <div className="mt-4 text-sm text-red-600 dark:text-red-400">
+                  {error}
+                </div>
+              )}
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setIsReviewing(false)}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={handleApply}
+                  disabled={isSubmitting}
+                  className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Applying...' : 'Apply Changes'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-4 space-y-4">
+              {NUMERIC_FIELDS.map(({ field, label, min, max, help }) => (
+                <div key={field}>
+                  <label htmlFor={field} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    id={field}
+                    value={settings[field]}
+                    onChange={(e) => updateSetting(field, e.target.value)}
+                    min={min}
+                    max={max}
+                    className={inputClassName}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{help}</p>
+                </div>
+              ))}
+
+              <div>
+                <label htmlFor="editDeadLetterQueueUrl" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Dead-letter Queue
+                </label>
+                <select
+                  id="editDeadLetterQueueUrl"
+                  value={settings.deadLetterQueueUrl}
+                  onChange={(e) => updateSetting('deadLetterQueueUrl', e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">None</option>
+                  {/* Keep the current DLQ selectable even if it is not in the loaded queue list */}
+                  {settings.deadLetterQueueUrl && !sameTypeQueues.some(queue => queue.url === settings.deadLetterQueueUrl) && (
+                    <option value={settings.deadLetterQueueUrl}>{queueNameFromUrl(settings.deadLetterQueueUrl)}</option>
+                  )}
+                  {sameTypeQueues.map(queue => (
+                    <option key={queue.url} value={queue.url}>{queue.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {settings.deadLetterQueueUrl && (
+                <div>
+                  <label htmlFor="editMaxReceiveCount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Maximum Receives
+                  </label>
+                  <input
+                    type="number"
+                    id="editMaxReceiveCount"
+                    value={settings.maxReceiveCount}
+                    onChange={(e) => updateSetting('maxReceiveCount', e.target.value)}
+                    min="1"
+                    max="1000"
+                    placeholder="10"
+                    className={inputClassName}
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    The number of times a message is received before it is moved to the dead-letter queue (1-1,000).
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="editRedrivePermission" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Redrive Allow Policy
+                </label>
+                <select
+                  id="editRedrivePermission"
+                  value={settings.redrivePermission}
+                  onChange={(e) => updateSetting('redrivePermission', e.target.value as RedrivePermission | '')}
+                  className={inputClassName}
+                >
+                  <option value="">Not set</option>
+                  <option value="allowAll">Allow all source queues</option>
+                  <option value="denyAll">Deny all source queues</option>
+                  <option value="byQueue">Allow specific source queues</option>
+                </select>
+              </div>
+
+              {settings.redrivePermission === 'byQueue' && (
+                <div>
+                  <label htmlFor="editRedriveSourceQueueUrls" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Allowed Source Queues
+                  </label>
+                  <select
+                    id="editRedriveSourceQueueUrls"
+                    multiple
+                    value={settings.redriveSourceQueueUrls}
+                    onChange={(e) => updateSetting('redriveSourceQueueUrls', Array.from(e.target.selectedOptions, option => option.value))}
+                    className={`${inputClassName} h-32`}
+                  >
+                    {sameTypeQueues.map(queue => (
+                      <option key={queue.url} value={queue.url}>{queue.name}</option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Select up to 10 queues.
+                  </p>
+                </div>
+              )}
+
+              {isFifo && (
+                <div className="border dark:border-gray-700 rounded-md p-4 space-y-4">
+                  <div className="flex items-center">
+                    <input
+                      id="editContentBasedDeduplication"
+                      type="checkbox"
+                      checked={settings.contentBasedDeduplication}
+                      onChange={(e) => updateSetting('contentBasedDeduplication', e.target.checked)}
+                      className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                    />
+                    <label htmlFor="editContentBasedDeduplication" className="ml-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Content-based Deduplication
+                    </label>
+                  </div>
+                  <div>
+                    <label htmlFor="editDeduplicationScope" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Deduplication Scope
+                    </label>
+                    <select
+                      id="editDeduplicationScope"
+                      value={settings.deduplicationScope}
+                      onChange={(e) => updateSetting('deduplicationScope', e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="queue">Queue</option>
+                      <option value="messageGroup">Message group</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="editFifoThroughputLimit" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      FIFO Throughput Limit
+                    </label>
+                    <select
+                      id="editFifoThroughputLimit"
+                      value={settings.fifoThroughputLimit}
+                      onChange={(e) => updateSetting('fifoThroughputLimit', e.target.value)}
+                      className={inputClassName}
+                    >
+                      <option value="perQueue">Per queue</option>
+                      <option value="perMessageGroupId">Per message group ID</option>
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      High throughput mode requires the message group deduplication scope and the per message group ID limit.
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="editPolicy" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Access Policy (JSON)
+                </label>
+                <textarea
+                  id="editPolicy"
+                  value={settings.policy}
+                  onChange={(e) => updateSetting('policy', e.target.value)}
+                  rows={8}
+                  className={`${inputClassName} font-mono text-xs`}
+                  placeholder='{"Version": "2012-10-17", "Statement": []}'
+                />
+              </div>
+
+              {error && (
+                <div className="text-sm text-red-600 dark:text-red-400">
+                  {error}
+                </div>
+              )}
+
+              <div className="mt-6 flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleReview}
+                  disabled={changes.length === 0}
+                  className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                  Review Changes ({changes.length})
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
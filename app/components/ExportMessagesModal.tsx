@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { ExportFormat } from '../lib/messageExport';
+
+interface ExportMessagesModalProps {
+  isOpen: boolean;
+  queueName: string;
+  queueUrl: string; // Base64 encoded queue URL
+  onClose: () => void;
+}
+
+export default function ExportMessagesModal({
+  isOpen,
+  queueName,
+  queueUrl,
+  onClose
+}: ExportMessagesModalProps) {
+  const [format, setFormat] = useState<ExportFormat>('ndjson');
+  const [mode, setMode] = useState<'peek' | 'drain'>('peek');
+  const [maxMessages, setMaxMessages] = useState('1000');
+  const [confirmDrain, setConfirmDrain] = useState(false);
+
+  if (!isOpen) return null;
+
+  const max = Number(maxMessages);
+  const isValidMax = Number.isInteger(max) && max >= 1 && max <= 10000;
+  const canExport = isValidMax && (mode === 'peek' || confirmDrain);
+  const exportUrl = `/api/queues/${queueUrl}/messages/export?format=${format}&mode=${mode}&max=${max}`;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity cursor-pointer"
+          onClick={onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-md p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Export Messages
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              onClick={onClose}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4 space-y-4">
+            <div>
+              <label htmlFor="exportFormat" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Format
+              </label>
+              <select
+                id="exportFormat"
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="ndjson">NDJSON (one message per line)</option>
+                <option value="json">JSON array</option>
+                <option value="csv">CSV</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="exportMode" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Mode
+              </label>
+              <select
+                id="exportMode"
+                value={mode}
+                onChange={(e) => {
+                  setMode(e.target.value as 'peek' | 'drain');
+                  setConfirmDrain(false);
+                }}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="peek">Peek (messages remain in the queue)</option>
+                <option value="drain">Drain (messages are deleted after export)</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="exportMaxMessages" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Maximum Messages
+              </label>
+              <input
+                type="number"
+                id="exportMaxMessages"
+                value={maxMessages}
+                onChange={(e) => setMaxMessages(e.target.value)}
+                min="1"
+                max="10000"
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              {!isValidMax && (
+                <p className="mt-1 text-xs text-red-600 dark:text-red-400">Enter a number between 1 and 10,000.</p>
+              )}
+            </div>
+
+            {mode === 'peek' ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Peeked messages become invisible to consumers for a few seconds while they are read, and SQS may not return every message of a large queue.
+              </p>
+            ) : (
+              <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/30 p-4">
+                <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                  Exported messages are deleted from <strong className="font-semibold">{queueName}</strong>. Messages are only written to the file once they were deleted, and messages that cannot be deleted stay in the queue. Stopping the download stops the export, and messages that were not written to the file stay in the queue.
+                </p>
+                <label className="mt-3 flex items-center text-sm text-yellow-800 dark:text-yellow-200">
+                  <input
+                    type="checkbox"
+                    checked={confirmDrain}
+                    onChange={(e) => setConfirmDrain(e.target.checked)}
+                    className="mr-2 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                  />
+                  I understand that the messages will be deleted
+                </label>
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Cancel
+              </button>
+              <a
+                href={canExport ? exportUrl : undefined}
+                download
+                onClick={(e) => {
+                  if (!canExport) {
+                    e.preventDefault();
+                    return;
+                  }
+                  onClose();
+                }}
+                aria-disabled={!canExport}
+                className={`inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                  mode === 'drain'
+                    ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500'
+                    : 'bg-indigo-600 hover:bg-indigo-700 focus:ring-indigo-500'
+                } ${canExport ? '' : 'opacity-50 cursor-not-allowed'}`}
+              >
+                {mode === 'drain' ? 'Drain and Export' : 'Export'}
+              </a>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
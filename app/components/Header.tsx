@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import ConnectionProfileSelect from './ConnectionProfileSelect';
+import AlertIndicator from './AlertIndicator';
 
 export default function Header() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -24,6 +26,8 @@ export default function Header() {
             </Link>
           </div>
           <div className="hidden md:flex md:items-center md:space-x-6">
+            <ConnectionProfileSelect />
+            <AlertIndicator />
             <Link 
               href="/" 
               className="text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
@@ -68,6 +72,10 @@ export default function Header() {
         {mobileMenuOpen && (
           <div className="md:hidden py-2 pb-4">
             <div className="space-y-1 px-2 pb-3 pt-2">
+              <div className="px-3 py-2 flex items-center space-x-3">
+                <ConnectionProfileSelect />
+                <AlertIndicator />
+              </div>
               <Link
                 href="/"
                 className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white hover:bg-gray-50 dark:hover:bg-gray-800"
@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { BatchSendResult } from '../lib/sqs';
+import { ImportLine, ImportLineResult, parseImportFile } from '../lib/messageImport';
+
+interface ImportMessagesModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded URL of the queue messages are imported into
+  queueName: string;
+  requiresDeduplicationId: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Upper bound of messages per API request, so progress can be reported between requests
+const MAX_REQUEST_SIZE = 100;
+
+export default function ImportMessagesModal({
+  isOpen,
+  queueUrl,
+  queueName,
+  requiresDeduplicationId,
+  onClose,
+  onSuccess
+}: ImportMessagesModalProps) {
+  const [fileName, setFileName] = useState('');
+  const [lines, setLines] = useState<ImportLine[]>([]);
+  const [dryRun, setDryRun] = useState(true);
+  const [rateLimit, setRateLimit] = useState('50');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [finishedDryRun, setFinishedDryRun] = useState(false);
+  const [results, setResults] = useState<ImportLineResult[]>([]);
+  const [showFailuresOnly, setShowFailuresOnly] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRequested = useRef(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    setFileName(file.name);
+    setLines(parseImportFile(content, requiresDeduplicationId));
+    setResults([]);
+    setIsFinished(false);
+    setError(null);
+  };
+
+  const handleImport = async () => {
+    const rate = Number(rateLimit);
+
+    try {
+      setIsRunning(true);
+      setIsFinished(false);
+      setFinishedDryRun(dryRun);
+      setError(null);
+      cancelRequested.current = false;
+
+      // Lines that could not be parsed fail right away, the rest is validated (and sent) by the API
+      setResults(lines.filter(line => line.error).map(line => ({ line: line.line, success: false, error: line.error })));
+      const validLines = lines.filter(line => line.entry);
+
+      // Without a rate limit the requests are sent back to back
+      const requestSize = rate > 0 ? Math.min(MAX_REQUEST_SIZE, Math.max(1, Math.floor(rate))) : MAX_REQUEST_SIZE;
+
+      for (let offset = 0; offset < validLines.length && !cancelRequested.current; offset += requestSize) {
+        const chunk = validLines.slice(offset, offset + requestSize);
+        const startedAt = Date.now();
+
+        const response = await fetch(`/api/queues/${queueUrl}/messages/batch`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ entries: chunk.map(line => line.entry), dryRun }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to import messages');
+        }
+
+        const result: BatchSendResult = await response.json();
+        const failedByIndex = new Map(result.failed.map(failure => [failure.index, failure.error]));
+        const messageIdByIndex = new Map(result.successful.map(success => [success.index, success.messageId]));
+
+        setResults(prev => [
+          ...prev,
+          ...chunk.map((line, index) => failedByIndex.has(index)
+            ? { line: line.line, success: false, error: failedByIndex.get(index) }
+            : { line: line.line, success: true, messageId: messageIdByIndex.get(index) }),
+        ]);
+
+        // Wait until the chunk has used up its share of the rate limit
+        if (rate > 0 && offset + requestSize < validLines.length) {
+          const remainingMs = (chunk.length / rate) * 1000 - (Date.now() - startedAt);
+          if (remainingMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, remainingMs));
+          }
+        }
+      }
+
+      setIsFinished(true);
+      if (!dryRun) {
+        onSuccess();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import messages');
+      console.error('Error importing messages:', err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const succeededCount = results.filter(result => result.success).length;
+  const failedCount = results.length - succeededCount;
+  const progressPercent = lines.length > 0 ? Math.round((results.length / lines.length) * 100) : 0;
+  const visibleResults = [...results]
+    .filter(result => !showFailuresOnly || !result.success)
+    .sort((a, b) => a.line - b.line);
+  const isValidRate = rateLimit === '' || Number(rateLimit) >= 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={isRunning ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-lg p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Import Messages
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 disabled:opacity-50"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Send the messages of an NDJSON export to <strong className="font-semibold">{queueName}</strong>. Message attributes and FIFO message group and deduplication IDs of the original messages are kept.
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="importFile" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Export File (NDJSON) *
+              </label>
+              <input
+                type="file"
+                id="importFile"
+                accept=".ndjson,.jsonl,.txt"
+                onChange={handleFileChange}
+                disabled={isRunning}
+                className="mt-1 block w-full text-sm text-gray-700 dark:text-gray-300"
+              />
+              {fileName && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {lines.length} messages found{lines.some(line => line.error) && `, ${lines.filter(line => line.error).length} lines cannot be parsed`}
+                </p>
+              )}
+            </div>
+
+            <div className="mb-4">
+              <label htmlFor="importRateLimit" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Rate Limit (messages per second)
+              </label>
+              <input
+                type="number"
+                id="importRateLimit"
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.value)}
+                min="0"
+                disabled={isRunning}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Leave empty or set to 0 to send as fast as possible.
+              </p>
+            </div>
+
+            <div className="mb-4 flex items-center">
+              <input
+                id="importDryRun"
+                type="checkbox"
+                checked={dryRun}
+                onChange={(e) => setDryRun(e.target.checked)}
+                disabled={isRunning}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <label htmlFor="importDryRun" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                Dry run (validate the messages without sending them)
+              </label>
+            </div>
+
+            {(isRunning || isFinished || results.length > 0) && (
+              <div className="mb-4">
+                <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                  <div className="h-2 bg-indigo-600 dark:bg-indigo-500 transition-all" style={{ width: `${progressPercent}%` }}></div>
+                </div>
+                <div className="mt-1 flex justify-between items-center">
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {isRunning ? 'Importing... ' : isFinished ? 'Finished: ' : 'Stopped: '}
+                    {succeededCount} {finishedDryRun ? 'valid' : 'sent'}{failedCount > 0 && `, ${failedCount} failed`}
+                  </p>
+                  <label className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                    <input
+                      type="checkbox"
+                      checked={showFailuresOnly}
+                      onChange={(e) => setShowFailuresOnly(e.target.checked)}
+                      className="mr-1 h-3 w-3 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                    />
+                    Failures only
+                  </label>
+                </div>
+                {visibleResults.length > 0 && (
+                  <ul className="mt-2 max-h-48 overflow-y-auto text-xs font-mono">
+                    {visibleResults.map(result => (
+                      <li
+                        key={result.line}
+                        className={result.success ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}
+                      >
+                        Line {result.line}: {result.success ? (result.messageId || 'valid') : result.error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              {isRunning ? (
+                <button
+                  type="button"
+                  onClick={() => { cancelRequested.current = true; }}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  {isFinished ? 'Close' : 'Cancel'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isRunning || lines.length === 0 || !isValidRate}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isRunning ? 'Importing...' : dryRun ? 'Validate' : 'Import Messages'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
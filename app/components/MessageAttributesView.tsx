@@ -0,0 +1,62 @@
+'use client';
+
+import { Message } from '../lib/sqs';
+
+interface MessageAttributesViewProps {
+  message: Message;
+}
+
+// System attributes that hold epoch milliseconds and are easier to read as dates
+const TIMESTAMP_ATTRIBUTES = ['SentTimestamp', 'ApproximateFirstReceiveTimestamp'];
+
+export default function MessageAttributesView({ message }: MessageAttributesViewProps) {
+  const messageAttributes = Object.entries(message.messageAttributes || {});
+  const systemAttributes = Object.entries(message.attributes || {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const formatSystemAttribute = (name: string, value: string | undefined) => {
+    if (value && TIMESTAMP_ATTRIBUTES.includes(name)) {
+      return `${new Date(parseInt(value, 10)).toLocaleString()} (${value})`;
+    }
+    return value;
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-3">
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">Message Attributes</h4>
+        {messageAttributes.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No message attributes.</p>
+        ) : (
+          <table className="min-w-full text-xs">
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {messageAttributes.map(([name, attribute]) => (
+                <tr key={name}>
+                  <td className="py-1 pr-3 font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">{name}</td>
+                  <td className="py-1 pr-3 text-gray-500 dark:text-gray-400 whitespace-nowrap">{attribute.dataType}</td>
+                  <td className="py-1 font-mono text-gray-700 dark:text-gray-300 break-all">
+                    {attribute.binaryValue !== undefined ? attribute.binaryValue : attribute.stringValue}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div>
+        <h4 className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-1">System Attributes</h4>
+        <table className="min-w-full text-xs">
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+            {systemAttributes.map(([name, value]) => (
+              <tr key={name}>
+                <td className="py-1 pr-3 font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">{name}</td>
+                <td className="py-1 font-mono text-gray-700 dark:text-gray-300 break-all">{formatSystemAttribute(name, value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
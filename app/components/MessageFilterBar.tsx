@@ -0,0 +1,116 @@
+'use client';
+
+import { MessageFilter, MessageMatchMode } from '../lib/messageFilter';
+
+interface MessageFilterBarProps {
+  filter: MessageFilter;
+  error?: string;
+  isSearching: boolean;
+  onChange: (filter: MessageFilter) => void;
+  onSearchDeeper: () => void;
+}
+
+const PLACEHOLDERS: Record<MessageMatchMode, string> = {
+  substring: 'Text in the message body',
+  regex: 'Regular expression, e.g. order-\\d+',
+  jsonPath: '$.order.status == "FAILED" && $.attempts > 3',
+};
+
+// datetime-local inputs work with local time without a time zone
+const toLocalInputValue = (timestamp?: number) =>
+  timestamp === undefined ? '' : new Date(timestamp - new Date(timestamp).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+const fromLocalInputValue = (value: string) => (value ? new Date(value).getTime() : undefined);
+
+const inputClassName = 'border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+export default function MessageFilterBar({ filter, error, isSearching, onChange, onSearchDeeper }: MessageFilterBarProps) {
+  const isEmpty = !filter.query && filter.minReceiveCount === undefined
+    && filter.sentAfter === undefined && filter.sentBefore === undefined;
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.mode}
+          onChange={(e) => onChange({ ...filter, mode: e.target.value as MessageMatchMode })}
+          aria-label="Match messages by"
+          className={inputClassName}
+        >
+          <option value="substring">Contains</option>
+          <option value="regex">Regex</option>
+          <option value="jsonPath">JSONPath</option>
+        </select>
+        <input
+          type="text"
+          value={filter.query || ''}
+          onChange={(e) => onChange({ ...filter, query: e.target.value || undefined })}
+          placeholder={PLACEHOLDERS[filter.mode]}
+          aria-label="Filter messages"
+          className={`${inputClassName} flex-1 min-w-[16rem] font-mono`}
+        />
+        <label
+          className="inline-flex items-center text-sm text-gray-500 dark:text-gray-400"
+          title="Match the payload inside SNS, EventBridge and S3 envelopes and base64 or gzip encodings"
+        >
+          <input
+            type="checkbox"
+            checked={!!filter.decoded}
+            onChange={(e) => onChange({ ...filter, decoded: e.target.checked })}
+            className="h-4 w-4 mr-1 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+          />
+          Decoded
+        </label>
+        <label className="text-sm text-gray-500 dark:text-gray-400">
+          Receive count &gt;
+          <input
+            type="number"
+            min="0"
+            value={filter.minReceiveCount ?? ''}
+            onChange={(e) => onChange({ ...filter, minReceiveCount: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+            className={`${inputClassName} ml-1 w-16`}
+          />
+        </label>
+        <label className="text-sm text-gray-500 dark:text-gray-400">
+          Sent after
+          <input
+            type="datetime-local"
+            value={toLocalInputValue(filter.sentAfter)}
+            onChange={(e) => onChange({ ...filter, sentAfter: fromLocalInputValue(e.target.value) })}
+            className={`${inputClassName} ml-1`}
+          />
+        </label>
+        <label className="text-sm text-gray-500 dark:text-gray-400">
+          before
+          <input
+            type="datetime-local"
+            value={toLocalInputValue(filter.sentBefore)}
+            onChange={(e) => onChange({ ...filter, sentBefore: fromLocalInputValue(e.target.value) })}
+            className={`${inputClassName} ml-1`}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={onSearchDeeper}
+          disabled={isEmpty || !!error || isSearching}
+          title="Peek at more messages on the server and keep only the matching ones"
+          className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSearching ? 'Searching...' : 'Search deeper'}
+        </button>
+        {!isEmpty && (
+          <button
+            type="button"
+            onClick={() => onChange({ mode: filter.mode, decoded: filter.decoded })}
+            className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
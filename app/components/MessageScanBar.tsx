@@ -0,0 +1,159 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { Message, ScanEvent } from '../lib/sqs';
+import { MessageFilter, appendMessageFilterParams } from '../lib/messageFilter';
+
+interface MessageScanBarProps {
+  queueUrl: string; // Base64 encoded URL
+  filter: MessageFilter;
+  isFifo: boolean;
+  onStart: () => void;
+  onMessages: (messages: Message[]) => void;
+}
+
+const VISIBILITY_TIMEOUTS = [30, 60, 120, 300, 600];
+
+const MAX_SCAN_MESSAGES = 10000;
+
+const STOP_REASONS: Record<string, string> = {
+  complete: 'Scan complete',
+  max: `Stopped after ${MAX_SCAN_MESSAGES} messages`,
+  timeout: 'Stopped before the visibility timeout ran out',
+  cancelled: 'Scan stopped',
+  error: 'Scan failed',
+};
+
+export default function MessageScanBar({ queueUrl, filter, isFifo, onStart, onMessages }: MessageScanBarProps) {
+  const [visibilityTimeout, setVisibilityTimeout] = useState(60);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanned, setScanned] = useState(0);
+  const [approximateCount, setApproximateCount] = useState(0);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortController = useRef<AbortController | null>(null);
+
+  const handleEvent = (event: ScanEvent) => {
+    if (event.type === 'start') {
+      setApproximateCount(event.approximateCount);
+    } else if (event.type === 'messages') {
+      setScanned(event.scanned);
+      onMessages(event.messages);
+    } else {
+      setScanned(event.scanned);
+      setSummary(`${STOP_REASONS[event.reason]}: ${event.scanned} of about ${event.approximateCount} messages scanned`
+        + (event.releaseFailed > 0 ? `, ${event.releaseFailed} stay hidden until their visibility timeout ends` : ''));
+      if (event.error) {
+        setError(event.error);
+      }
+    }
+  };
+
+  const startScan = async () => {
+    const controller = new AbortController();
+    abortController.current = controller;
+
+    try {
+      setIsScanning(true);
+      setScanned(0);
+      setApproximateCount(0);
+      setSummary(null);
+      setError(null);
+      onStart();
+
+      const url = new URL(`/api/queues/${queueUrl}/messages/scan`, window.location.origin);
+      url.searchParams.set('visibilityTimeout', visibilityTimeout.toString());
+      url.searchParams.set('max', MAX_SCAN_MESSAGES.toString());
+      appendMessageFilterParams(url.searchParams, filter);
+
+      const response = await fetch(url.toString(), { signal: controller.signal });
+      if (!response.ok || !response.body) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to scan messages');
+      }
+
+      // Events are newline-delimited JSON and can be split across chunks
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.filter(line => line.trim()).forEach(line => handleEvent(JSON.parse(line)));
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setSummary('Scan stopped; the scanned messages are made visible again');
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to scan messages');
+        console.error('Error scanning messages:', err);
+      }
+    } finally {
+      abortController.current = null;
+      setIsScanning(false);
+    }
+  };
+
+  const coverage = approximateCount > 0 ? Math.min(100, Math.round((scanned / approximateCount) * 100)) : 0;
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-gray-500 dark:text-gray-400">
+          Hide scanned messages for
+          <select
+            value={visibilityTimeout}
+            onChange={(e) => setVisibilityTimeout(parseInt(e.target.value, 10))}
+            disabled={isScanning}
+            className="ml-1 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            {VISIBILITY_TIMEOUTS.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}</option>
+            ))}
+          </select>
+        </label>
+        {isScanning ? (
+          <button
+            type="button"
+            onClick={() => abortController.current?.abort()}
+            className="inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-1 focus:ring-red-500"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={startScan}
+            title="Receive every visible message once, then make all of them visible again"
+            className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            Full scan
+          </button>
+        )}
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {isFifo
+            ? 'FIFO queues only return messages of groups without messages in flight, so a scan sees the first messages of each group.'
+            : 'Scanning increases the receive count of every message, which counts towards the redrive policy.'}
+        </span>
+      </div>
+      {(isScanning || summary) && (
+        <div className="mt-2">
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+            <div className="h-2 bg-indigo-600 dark:bg-indigo-500" style={{ width: `${isScanning ? coverage : 100}%` }}></div>
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {summary || `Scanned ${scanned} of about ${approximateCount} messages (${coverage}%)`}
+          </p>
+        </div>
+      )}
+      {error && (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface PurgeQueueModalProps {
+  isOpen: boolean;
+  queueName: string;
+  queueUrl: string; // Base64 encoded queue URL
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export default function PurgeQueueModal({
+  isOpen,
+  queueName,
+  queueUrl,
+  onClose,
+  onSuccess
+}: PurgeQueueModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirmName, setConfirmName] = useState('');
+  const [cooldownSeconds, setCooldownSeconds] = useState(0);
+
+  // Count down the remaining PurgeQueue cooldown reported by the API
+  useEffect(() => {
+    if (cooldownSeconds <= 0) return;
+    
+    const timeout = window.setTimeout(() => setCooldownSeconds(cooldownSeconds - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [cooldownSeconds]);
+
+  const handlePurge = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      
+      const response = await fetch(`/api/queues/${queueUrl}/purge`, {
+        method: 'POST',
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        if (response.status === 409 && errorData.retryAfterSeconds) {
+          setCooldownSeconds(errorData.retryAfterSeconds);
+        }
+        throw new Error(errorData.error || 'Failed to purge queue');
+      }
+      
+      // Reset form and close
+      setConfirmName('');
+      onSuccess();
+      onClose();
+      
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to purge queue');
+      console.error('Error purging queue:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+  
+  if (!isOpen) return null;
+  
+  // Check if confirmation input matches queue name
+  const isConfirmed = confirmName === queueName;
+  
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div 
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity cursor-pointer"
+          onClick={onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-md p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Purge Queue
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
+              onClick={onClose}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+          
+          <div className="mt-4">
+            <div className="rounded-md bg-yellow-50 dark:bg-yellow-900/30 p-4 mb-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <svg className="h-5 w-5 text-yellow-400 dark:text-yellow-500" viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                  </svg>
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-yellow-800 dark:text-yellow-200">
+                    Warning: This action cannot be undone
+                  </h3>
+                  <div className="mt-2 text-sm text-yellow-700 dark:text-yellow-300">
+                    <p>
+                      You are about to delete all messages in <strong className="font-semibold">{queueName}</strong>. The queue itself is kept. Deleting the messages can take up to 60 seconds, and a queue can only be purged once every 60 seconds.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            </div>
+            
+            <div className="mb-4">
+              <label htmlFor="confirmPurgeName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                To confirm, type the queue name:
+              </label>
+              <input
+                type="text"
+                id="confirmPurgeName"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder={queueName}
+              />
+            </div>
+            
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+            
+            <div className="mt-6 flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handlePurge}
+                disabled={isSubmitting || !isConfirmed || cooldownSeconds > 0}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+              >
+                {isSubmitting ? 'Purging...' : cooldownSeconds > 0 ? `Purge available in ${cooldownSeconds}s` : 'Purge Queue'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,26 @@
 'use client';
 
-import { useState, useEffect, useCallback, Fragment } from 'react';
-import { Message } from '../lib/sqs';
+import { useState, useEffect, useCallback, useMemo, Fragment } from 'react';
+import { Message, MessageAttribute, BulkDeleteResult } from '../lib/sqs';
+import { QueueAttributesEvent, QueueMessagesEvent } from '../lib/queueEvents';
+import { QueueMessageSchema } from '../lib/messageSchemas';
+import { SchemaViolation, validateMessageBody, findJsonPathLines } from '../lib/jsonSchema';
+import { DecodedMessageBody, decodeMessageBody } from '../lib/messageDecoders';
+import { formatCountdown } from '../lib/messageVisibility';
+import RedriveModal from './RedriveModal';
+import BatchProducePanel from './BatchProducePanel';
+import ExportMessagesModal from './ExportMessagesModal';
+import ImportMessagesModal from './ImportMessagesModal';
+import TransferMessagesModal from './TransferMessagesModal';
+import ChangeVisibilityModal from './ChangeVisibilityModal';
+import BulkDeleteModal from './BulkDeleteModal';
+import EditMessageModal from './EditMessageModal';
+import QueueMetricsPanel from './QueueMetricsPanel';
+import MessageFilterBar from './MessageFilterBar';
+import MessageScanBar from './MessageScanBar';
+import ConsumePanel from './ConsumePanel';
+import { MessageFilter, compileMessageFilter, appendMessageFilterParams } from '../lib/messageFilter';
+import MessageAttributesView from './MessageAttributesView';
 import 'react-json-view-lite/dist/index.css';
 import AceEditor from 'react-ace';
 import 'ace-builds/src-noconflict/mode-json';
@@ -9,6 +28,22 @@ import 'ace-builds/src-noconflict/theme-github';
 import 'ace-builds/src-noconflict/theme-dracula';
 import 'ace-builds/src-noconflict/theme-tomorrow_night';
 
+type MessageAttributeRow = {
+  name: string;
+  dataType: 'String' | 'Number' | 'Binary';
+  value: string;
+};
+
+// Number of messages peeked on the server when searching deeper than the messages table shows
+const DEEP_SEARCH_MAX_MESSAGES = 500;
+
+// FIFO sequence numbers are large numeric strings that do not fit in a number, so compare them by length first
+const compareSequenceNumbers = (a?: string, b?: string) => {
+  const x = a || '';
+  const y = b || '';
+  return x.length - y.length || (x < y ? -1 : x > y ? 1 : 0);
+};
+
 interface QueueDetailProps {
   queueUrl: string;
   queueName: string;
@@ -22,9 +57,24 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
   const [messageInput, setMessageInput] = useState('{}');
   const [sendingMessage, setSendingMessage] = useState(false);
   const [sendError, setSendError] = useState<string | null>(null);
-  const [refreshInterval, setRefreshInterval] = useState<number | null>(null); // Will be set in useEffect
+  const [autoRefresh, setAutoRefresh] = useState(false);
+  const [refreshMode, setRefreshMode] = useState<'stream' | 'polling'>('stream');
+  const [messageFilter, setMessageFilter] = useState<MessageFilter>({ mode: 'substring', decoded: true });
+  const [isDeepSearching, setIsDeepSearching] = useState(false);
+  const [streamedAttributes, setStreamedAttributes] = useState<Record<string, string> | null>(null); // Counts pushed by the event stream
   const [isValidJson, setIsValidJson] = useState(true);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc'); // Default to most recent first
+  const [sortField, setSortField] = useState<'timestamp' | 'sequence'>('timestamp');
+  const [checkedMessageIds, setCheckedMessageIds] = useState<Set<string>>(new Set()); // Multi-selection for bulk actions
+  const [attributeRows, setAttributeRows] = useState<MessageAttributeRow[]>([]);
+  const [delaySeconds, setDelaySeconds] = useState('');
+  const [messageGroupId, setMessageGroupId] = useState('');
+  const [messageDeduplicationId, setMessageDeduplicationId] = useState('');
+  const [messageSchema, setMessageSchema] = useState<QueueMessageSchema | null>(null); // JSON Schema configured for the queue
+  const [visibleAt, setVisibleAt] = useState<Record<string, number>>({}); // When messages hidden from here become visible again
+  const [heldMessages, setHeldMessages] = useState<Record<string, Message>>({}); // Messages hidden from here, with the receipt handle that hid them
+  const isFifo = queueAttributes?.FifoQueue === 'true';
+  const requiresDeduplicationId = isFifo && queueAttributes?.ContentBasedDeduplication !== 'true';
   
   // Check and determine if dark mode is active
   const checkDarkMode = useCallback(() => {
@@ -45,8 +95,10 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
         throw new Error(`Failed to fetch messages: ${response.statusText}`);
       }
       
-      const data = await response.json();
+      const data: Message[] = await response.json();
       setMessages(data);
+      // Drop selections for messages that are no longer in the queue
+      setCheckedMessageIds(prev => new Set(data.map(msg => msg.id).filter(id => prev.has(id))));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch messages');
       console.error('Error fetching messages:', err);
@@ -81,23 +133,132 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
     
     // Cleanup when component unmounts
     return () => {
-      if (refreshInterval) {
-        clearInterval(refreshInterval);
-      }
       observer.disconnect();
     };
-  }, [queueUrl, checkDarkMode, fetchMessages, refreshInterval]);
+  }, [queueUrl, checkDarkMode, fetchMessages]);
 
-  const toggleAutoRefresh = () => {
-    if (refreshInterval) {
-      clearInterval(refreshInterval);
-      setRefreshInterval(null);
-    } else {
-      const interval = window.setInterval(fetchMessages, 5000);
-      setRefreshInterval(interval as unknown as number);
+  useEffect(() => {
+    const fetchMessageSchema = async () => {
+      try {
+        const response = await fetch(`/api/queues/${queueUrl}/schema`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch message schema');
+        }
+        setMessageSchema(await response.json());
+      } catch (err) {
+        // Without a schema messages are simply not validated
+        console.error('Error fetching message schema:', err);
+      }
+    };
+
+    fetchMessageSchema();
+  }, [queueUrl]);
+
+  // Peeking cannot see messages hidden from here, so they stay listed with the receipt handle that hid them
+  // until they are visible again; only that handle can release them early
+  const listedMessages = useMemo(() => {
+    const hidden = new Map(Object.values(heldMessages)
+      .filter(message => visibleAt[message.id] > Date.now())
+      .map(message => [message.id, message]));
+    const peekedIds = new Set(messages.map(message => message.id));
+    return [
+      ...messages.map(message => hidden.get(message.id) || message),
+      ...Array.from(hidden.values()).filter(message => !peekedIds.has(message.id)),
+    ];
+  }, [messages, heldMessages, visibleAt]);
+
+  // Violations of the peeked messages, only for messages that do not match the schema
+  const schemaViolations = useMemo(() => {
+    const violations = new Map<string, SchemaViolation[]>();
+    if (!messageSchema) return violations;
+
+    for (const message of listedMessages) {
+      const messageViolations = validateMessageBody(messageSchema.schema, message.body);
+      if (messageViolations.length > 0) {
+        violations.set(message.id, messageViolations);
+      }
     }
+    return violations;
+  }, [messageSchema, listedMessages]);
+
+  // Payloads inside envelopes and encodings, only for messages a decoder recognizes
+  const decodedBodies = useMemo(() => {
+    const decoded = new Map<string, DecodedMessageBody>();
+    for (const message of listedMessages) {
+      const decodedBody = decodeMessageBody(message.body);
+      if (decodedBody.steps.length > 0) {
+        decoded.set(message.id, decodedBody);
+      }
+    }
+    return decoded;
+  }, [listedMessages]);
+
+  // Invalid JSON is already reported by the editor, so only a parsed message is checked against the schema
+  const inputViolations = messageSchema && isValidJson ? validateMessageBody(messageSchema.schema, messageInput) : [];
+
+  // Auto-refresh subscribes to the event stream of the queue, which polls SQS once on the server for all open tabs.
+  // When the stream cannot be opened, fall back to peeking at the messages every 5 seconds.
+  useEffect(() => {
+    if (!autoRefresh) return;
+
+    let pollingInterval: number | undefined;
+    const startPolling = () => {
+      setRefreshMode('polling');
+      pollingInterval = window.setInterval(fetchMessages, 5000);
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return () => window.clearInterval(pollingInterval);
+    }
+
+    const source = new EventSource(`/api/queues/${queueUrl}/events`);
+    let isConnected = false;
+
+    source.onopen = () => {
+      isConnected = true;
+      setRefreshMode('stream');
+    };
+
+    source.addEventListener('attributes', (event) => {
+      const data: QueueAttributesEvent = JSON.parse(event.data);
+      setStreamedAttributes(data.attributes);
+    });
+
+    source.addEventListener('messages', (event) => {
+      const data: QueueMessagesEvent = JSON.parse(event.data);
+      const removedIds = new Set(data.removedIds);
+      const addedIds = new Set(data.messages.map(msg => msg.id));
+
+      setMessages(prev => data.initial
+        ? data.messages
+        : [...prev.filter(msg => !removedIds.has(msg.id) && !addedIds.has(msg.id)), ...data.messages]);
+      setCheckedMessageIds(prev => new Set(Array.from(prev).filter(id => !removedIds.has(id))));
+    });
+
+    source.onerror = () => {
+      // Once connected, the browser reconnects by itself; a stream that never opened is not available
+      if (!isConnected || source.readyState === EventSource.CLOSED) {
+        source.close();
+        if (pollingInterval === undefined) {
+          startPolling();
+        }
+      }
+    };
+
+    return () => {
+      source.close();
+      window.clearInterval(pollingInterval);
+    };
+  }, [autoRefresh, queueUrl, fetchMessages]);
+
+  const toggleAutoRefresh = () => {
+    setAutoRefresh(!autoRefresh);
   };
 
+  // Counts pushed by the event stream are newer than the ones the page loaded
+  const currentAttributes = streamedAttributes || queueAttributes;
+
   const handleSendMessage = async () => {
     try {
       setSendingMessage(true);
@@ -113,13 +274,33 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
         return;
       }
       
+      if (inputViolations.length > 0) {
+        setSendError(`The message does not match the schema of ${messageSchema?.queue}`);
+        setSendingMessage(false);
+        return;
+      }
+      
+      // Rows without a name are treated as empty and skipped
+      const messageAttributes: Record<string, MessageAttribute> = {};
+      for (const row of attributeRows.filter(row => row.name.trim())) {
+        messageAttributes[row.name.trim()] = row.dataType === 'Binary'
+          ? { dataType: row.dataType, binaryValue: row.value.trim() }
+          : { dataType: row.dataType, stringValue: row.value };
+      }
+      
       // The API expects the encoded queueUrl directly
       const response = await fetch(`/api/queues/${queueUrl}/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ message: messageBody }),
+        body: JSON.stringify({
+          message: messageBody,
+          messageAttributes,
+          delaySeconds: delaySeconds || undefined,
+          messageGroupId: isFifo ? messageGroupId : undefined,
+          messageDeduplicationId: isFifo && messageDeduplicationId ? messageDeduplicationId : undefined,
+        }),
       });
       
       if (!response.ok) {
@@ -129,6 +310,10 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
       
       // Clear the input and refetch messages
       setMessageInput('{}');
+      setAttributeRows([]);
+      setDelaySeconds('');
+      // Keep the group ID so several messages can be sent to the same group, but dedup IDs are per message
+      setMessageDeduplicationId('');
       fetchMessages();
     } catch (err) {
       setSendError(err instanceof Error ? err.message : 'Failed to send message');
@@ -152,19 +337,36 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
   };
 
   const [deletingMessageIds, setDeletingMessageIds] = useState<Set<string>>(new Set());
+  const [visibilityTargets, setVisibilityTargets] = useState<Message[] | null>(null); // Messages in the visibility modal
+  const [editTarget, setEditTarget] = useState<Message | null>(null); // Message in the edit and resend modal
+  const [now, setNow] = useState(Date.now());
+
+  // Tick every second while a visibility countdown is running
+  useEffect(() => {
+    if (!Object.values(visibleAt).some(time => time > Date.now())) return;
+
+    const timer = window.setInterval(() => {
+      setNow(Date.now());
+      if (!Object.values(visibleAt).some(time => time > Date.now())) {
+        window.clearInterval(timer);
+      }
+    }, 1000);
+
+    return () => window.clearInterval(timer);
+  }, [visibleAt]);
   
   const handleDeleteMessage = async (message: Message) => {
     try {
       const messageId = message.id;
       setDeletingMessageIds(prev => new Set([...prev, messageId]));
       
-      // The API expects the encoded queueUrl directly
-      const response = await fetch(`/api/queues/${queueUrl}/messages`, {
-        method: 'DELETE',
+      // Peeked receipt handles expire with the next peek, so the message is found with a pass over the queue
+      const response = await fetch(`/api/queues/${queueUrl}/messages/delete`, {
+        method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ messageId, peekMode: true }), // Always use peek mode
+        body: JSON.stringify({ messageIds: [messageId] }),
       });
       
       if (!response.ok) {
@@ -172,8 +374,13 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
         throw new Error(errorData.error || 'Failed to delete message');
       }
       
+      const result: BulkDeleteResult = await response.json();
+      if (result.deleted.length === 0) {
+        throw new Error(result.failed[0]?.error || 'Message not found or held by another consumer');
+      }
+      
       // Remove the message from the list
-      setMessages(messages.filter(msg => msg.id !== messageId));
+      setMessages(prev => prev.filter(msg => msg.id !== messageId));
       
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete message');
@@ -187,12 +394,16 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
     }
   };
 
-  const formatMessageBody = (body: string) => {
+  const formatMessageBody = (body: string, violations: SchemaViolation[] = []) => {
     try {
       // Try to parse as JSON and format it
       const parsedBody = JSON.parse(body);
       const formattedJson = JSON.stringify(parsedBody, null, 2);
       
+      // Point out schema violations on the lines of the failing values
+      const pathLines = findJsonPathLines(parsedBody);
+      const violationRows = violations.map(violation => ({ ...violation, row: pathLines.get(violation.path) ?? 0 }));
+      
       return (
         <div className="rounded overflow-hidden">
           <AceEditor
@@ -200,6 +411,20 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
             theme="dracula"
             value={formattedJson}
             readOnly={true}
+            annotations={violationRows.map(violation => ({
+              row: violation.row,
+              column: 0,
+              type: 'error',
+              text: `${violation.path} ${violation.message}`,
+            }))}
+            markers={violationRows.map(violation => ({
+              startRow: violation.row,
+              startCol: 0,
+              endRow: violation.row,
+              endCol: 1,
+              className: 'schema-violation',
+              type: 'fullLine',
+            }))}
             name="message-viewer"
             editorProps={{ $blockScrolling: true }}
             setOptions={{
@@ -251,16 +476,40 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
       statusClass = 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100';
     }
     
+    // The visibility of this message was changed from here, so its state is known
+    if (visibleAt[message.id] !== undefined) {
+      const remaining = visibleAt[message.id] - now;
+      if (remaining > 0) {
+        status = `In Flight ${formatCountdown(remaining)}`;
+        statusClass = 'bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100';
+      } else {
+        status = 'Available';
+        statusClass = 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100';
+      }
+    }
+    
     // Check if message is being deleted
     if (deletingMessageIds.has(message.id)) {
       status = 'Deleting';
       statusClass = 'bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100';
     }
     
+    const violations = schemaViolations.get(message.id);
+    
     return (
-      <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusClass}`}>
-        {status}
-      </span>
+      <>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full ${statusClass}`}>
+          {status}
+        </span>
+        {violations && (
+          <span
+            className="ml-1 px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100"
+            title={violations.map(violation => `${violation.path} ${violation.message}`).join('\n')}
+          >
+            Schema
+          </span>
+        )}
+      </>
     );
   };
   
@@ -285,14 +534,84 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
       messageCount,
       avgMessageSize: Math.round(avgMessageSize),
       oldestMessage: oldestMessageTime,
-      activeRefresh: refreshInterval !== null
+      activeRefresh: autoRefresh
     };
   };
 
   const stats = getQueueStats();
 
   const [selectedMessageId, setSelectedMessageId] = useState<string | null>(null);
+  const [rawMessageIds, setRawMessageIds] = useState<Set<string>>(new Set());
   const [isProduceModalOpen, setIsProduceModalOpen] = useState(false);
+  const [produceMode, setProduceMode] = useState<'single' | 'batch'>('single');
+  const [isRedriveModalOpen, setIsRedriveModalOpen] = useState(false);
+  const [isExportModalOpen, setIsExportModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isTransferModalOpen, setIsTransferModalOpen] = useState(false);
+  const [isBulkDeleteModalOpen, setIsBulkDeleteModalOpen] = useState(false);
+
+  // Toggle a message in the multi-selection used by bulk actions
+  const toggleMessageChecked = (messageId: string) => {
+    setCheckedMessageIds(prev => {
+      const updated = new Set(prev);
+      if (updated.has(messageId)) {
+        updated.delete(messageId);
+      } else {
+        updated.add(messageId);
+      }
+      return updated;
+    });
+  };
+
+  const { matches: filterMatches, error: filterError } = compileMessageFilter(messageFilter);
+  const filteredMessages = filterMatches ? listedMessages.filter(filterMatches) : listedMessages;
+
+  const allMessagesChecked = filteredMessages.length > 0 && filteredMessages.every(msg => checkedMessageIds.has(msg.id));
+
+  const toggleAllMessagesChecked = () => {
+    setCheckedMessageIds(allMessagesChecked ? new Set() : new Set(filteredMessages.map(msg => msg.id)));
+  };
+
+  // Peek at more messages than the table shows and let the server keep only the ones matching the filter
+  const searchDeeper = async () => {
+    try {
+      setIsDeepSearching(true);
+      setError(null);
+
+      const url = new URL(`/api/queues/${queueUrl}/messages`, window.location.origin);
+      url.searchParams.set('mode', 'peek');
+      url.searchParams.set('max', DEEP_SEARCH_MAX_MESSAGES.toString());
+      appendMessageFilterParams(url.searchParams, messageFilter);
+
+      const response = await fetch(url.toString());
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to search messages');
+      }
+
+      const data: Message[] = await response.json();
+      setMessages(data);
+      setCheckedMessageIds(new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to search messages');
+      console.error('Error searching messages:', err);
+    } finally {
+      setIsDeepSearching(false);
+    }
+  };
+
+  // Toggle between the decoded payload and the raw body of a message
+  const toggleRawBody = (messageId: string) => {
+    setRawMessageIds(prev => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
 
   // Toggle message details
   const toggleMessageDetails = (messageId: string) => {
@@ -328,21 +647,21 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
               <div className="sm:col-span-1">
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Messages Available</dt>
                 <dd className="mt-1 text-sm text-gray-900 dark:text-white font-semibold">
-                  {queueAttributes?.ApproximateNumberOfMessages || '0'}
+                  {currentAttributes?.ApproximateNumberOfMessages || '0'}
                 </dd>
               </div>
               
               <div className="sm:col-span-1">
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Messages In Flight</dt>
                 <dd className="mt-1 text-sm text-gray-900 dark:text-white font-semibold">
-                  {queueAttributes?.ApproximateNumberOfMessagesNotVisible || '0'}
+                  {currentAttributes?.ApproximateNumberOfMessagesNotVisible || '0'}
                 </dd>
               </div>
               
               <div className="sm:col-span-1">
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Delayed Messages</dt>
                 <dd className="mt-1 text-sm text-gray-900 dark:text-white font-semibold">
-                  {queueAttributes?.ApproximateNumberOfMessagesDelayed || '0'}
+                  {currentAttributes?.ApproximateNumberOfMessagesDelayed || '0'}
                 </dd>
               </div>
               
@@ -361,13 +680,13 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
             </dl>
             <div className="mt-4 flex items-center">
               <span className={`inline-block w-2 h-2 rounded-full mr-2 ${stats.activeRefresh ? 'bg-green-500' : 'bg-red-500'}`}></span>
-              <span className="text-sm text-gray-500 dark:text-gray-400">Auto-refresh: {stats.activeRefresh ? 'Active (5s)' : 'Disabled'}</span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">Auto-refresh: {stats.activeRefresh ? (refreshMode === 'stream' ? 'Live' : 'Active (5s)') : 'Disabled'}</span>
               <button
                 type="button"
                 onClick={toggleAutoRefresh}
                 className="ml-2 inline-flex items-center px-2 py-1 border border-gray-300 dark:border-gray-600 text-xs font-medium rounded text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500"
               >
-                {refreshInterval ? 'Disable' : 'Enable'}
+                {autoRefresh ? 'Disable' : 'Enable'}
               </button>
               <button
                 type="button"
@@ -382,6 +701,8 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
         </div>
       </div>
 
+      <QueueMetricsPanel queueUrl={queueUrl} />
+
       {/* Messages Table */}
       <div className="bg-white dark:bg-gray-800 shadow dark:shadow-gray-700 sm:rounded-lg">
         <div className="px-4 py-5 sm:p-6">
@@ -390,34 +711,119 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
               <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">Messages</h3>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                 Viewing messages in peek mode (messages remain in the queue)
+                {filterMatches && ` - ${filteredMessages.length} of ${listedMessages.length} match the filter`}
               </p>
             </div>
-            <div className="inline-flex shadow-sm rounded-md">
+            <div className="flex items-center space-x-2">
+              {isFifo && (
+                <select
+                  value={sortField}
+                  onChange={(e) => setSortField(e.target.value as 'timestamp' | 'sequence')}
+                  aria-label="Sort messages by"
+                  className="border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                >
+                  <option value="timestamp">Sort by timestamp</option>
+                  <option value="sequence">Sort by sequence number</option>
+                </select>
+              )}
               <button
                 type="button"
-                onClick={() => setSortDirection('asc')}
-                className={`relative inline-flex items-center px-3 py-1 rounded-l-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
-                  sortDirection === 'asc' 
-                    ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100' 
-                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-                }`}
+                onClick={() => setIsRedriveModalOpen(true)}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500"
               >
-                Oldest First
+                {checkedMessageIds.size > 0 ? `Redrive (${checkedMessageIds.size})` : 'Redrive'}
               </button>
               <button
                 type="button"
-                onClick={() => setSortDirection('desc')}
-                className={`relative inline-flex items-center px-3 py-1 rounded-r-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
-                  sortDirection === 'desc' 
-                    ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100' 
-                    : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-                }`}
+                onClick={() => setIsTransferModalOpen(true)}
+                disabled={checkedMessageIds.size === 0}
+                title={checkedMessageIds.size === 0 ? 'Select messages to copy or move' : undefined}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
               >
-                Newest First
+                {checkedMessageIds.size > 0 ? `Copy / Move (${checkedMessageIds.size})` : 'Copy / Move'}
               </button>
+              <button
+                type="button"
+                onClick={() => setVisibilityTargets(listedMessages.filter(msg => checkedMessageIds.has(msg.id)))}
+                disabled={checkedMessageIds.size === 0}
+                title={checkedMessageIds.size === 0 ? 'Select messages to change their visibility' : undefined}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {checkedMessageIds.size > 0 ? `Visibility (${checkedMessageIds.size})` : 'Visibility'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsBulkDeleteModalOpen(true)}
+                disabled={checkedMessageIds.size === 0 && (!filterMatches || !!filterError)}
+                title={checkedMessageIds.size === 0
+                  ? (filterMatches ? 'Delete every message in the queue that matches the filter' : 'Select messages or set a filter to delete messages')
+                  : undefined}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-red-600 dark:text-red-400 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {checkedMessageIds.size > 0 ? `Delete (${checkedMessageIds.size})` : filterMatches ? 'Delete matching' : 'Delete'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsExportModalOpen(true)}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                Export
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsImportModalOpen(true)}
+                className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                Import
+              </button>
+              <div className="inline-flex shadow-sm rounded-md">
+                <button
+                  type="button"
+                  onClick={() => setSortDirection('asc')}
+                  className={`relative inline-flex items-center px-3 py-1 rounded-l-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
+                    sortDirection === 'asc' 
+                      ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100' 
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  Oldest First
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSortDirection('desc')}
+                  className={`relative inline-flex items-center px-3 py-1 rounded-r-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
+                    sortDirection === 'desc' 
+                      ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100' 
+                      : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  Newest First
+                </button>
+              </div>
             </div>
           </div>
           
+          <MessageFilterBar
+            filter={messageFilter}
+            error={filterError}
+            isSearching={isDeepSearching}
+            onChange={setMessageFilter}
+            onSearchDeeper={searchDeeper}
+          />
+          
+          <MessageScanBar
+            queueUrl={queueUrl}
+            filter={messageFilter}
+            isFifo={isFifo}
+            onStart={() => {
+              // Refreshing would replace the scanned messages with a peek
+              setAutoRefresh(false);
+              setMessages([]);
+              setCheckedMessageIds(new Set());
+            }}
+            onMessages={(batch) => setMessages(prev => [...prev, ...batch])}
+          />
+          
           {error && (
             <div className="mt-2 text-sm text-red-600 dark:text-red-400">
               {error}
@@ -434,15 +840,26 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
             </div>
           )}
           
-          {!loading && messages.length === 0 ? (
+          {!loading && filteredMessages.length === 0 ? (
             <div className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">
-              No messages available in this queue.
+              {listedMessages.length === 0
+                ? 'No messages available in this queue.'
+                : `None of the ${listedMessages.length} peeked messages match the filter. Try searching deeper.`}
             </div>
           ) : (
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
                 <thead className="bg-gray-50 dark:bg-gray-800">
                   <tr>
+                    <th scope="col" className="pl-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all messages"
+                        checked={allMessagesChecked}
+                        onChange={toggleAllMessagesChecked}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                      />
+                    </th>
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Offset
                     </th>
@@ -452,6 +869,16 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Message ID
                     </th>
+                    {isFifo && (
+                      <>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Group
+                        </th>
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                          Sequence
+                        </th>
+                      </>
+                    )}
                     <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
                       Status
                     </th>
@@ -464,20 +891,25 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
                   </tr>
                 </thead>
                 <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                  {[...messages]
+                  {[...filteredMessages]
                     .sort((a, b) => {
-                      const aTimestamp = a.timestamp || 0;
-                      const bTimestamp = b.timestamp || 0;
-                      return sortDirection === 'asc' ? aTimestamp - bTimestamp : bTimestamp - aTimestamp;
+                      const comparison = isFifo && sortField === 'sequence'
+                        ? compareSequenceNumbers(a.attributes?.SequenceNumber, b.attributes?.SequenceNumber)
+                        : (a.timestamp || 0) - (b.timestamp || 0);
+                      return sortDirection === 'asc' ? comparison : -comparison;
                     })
                     .map((message, index) => {
-                      // Create preview of message body
+                      const decodedBody = decodedBodies.get(message.id);
+                      const showRaw = !decodedBody || rawMessageIds.has(message.id);
+
+                      // Create preview of message body, from the decoded payload when there is one
+                      const previewBody = decodedBody ? decodedBody.body : message.body;
                       let preview = "{}";
                       try {
-                        const parsed = JSON.parse(message.body);
+                        const parsed = JSON.parse(previewBody);
                         preview = JSON.stringify(parsed).substring(0, 60) + (JSON.stringify(parsed).length > 60 ? '...' : '');
                       } catch {
-                        preview = message.body.substring(0, 60) + (message.body.length > 60 ? '...' : '');
+                        preview = previewBody.substring(0, 60) + (previewBody.length > 60 ? '...' : '');
                       }
                       
                       return (
@@ -486,6 +918,15 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
                             className={`hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer ${selectedMessageId === message.id ? 'bg-gray-50 dark:bg-gray-700' : ''}`}
                             onClick={() => toggleMessageDetails(message.id)}
                           >
+                            <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                              <input
+                                type="checkbox"
+                                aria-label={`Select message ${message.id}`}
+                                checked={checkedMessageIds.has(message.id)}
+                                onChange={() => toggleMessageChecked(message.id)}
+                                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                              />
+                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                               {index + 1}
                             </td>
@@ -497,13 +938,41 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400 max-w-[350px] truncate">
                               {message.id}
                             </td>
+                            {isFifo && (
+                              <>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400 max-w-[200px] truncate">
+                                  {message.attributes?.MessageGroupId || '-'}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500 dark:text-gray-400 max-w-[200px] truncate" title={message.attributes?.SequenceNumber}>
+                                  {message.attributes?.SequenceNumber || '-'}
+                                </td>
+                              </>
+                            )}
                             <td className="px-6 py-4 whitespace-nowrap text-sm">
                               {getMessageStatus(message)}
                             </td>
                             <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-[300px] truncate font-mono">
                               {preview}
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                            <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditTarget(message);
+                                }}
+                                className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setVisibilityTargets([message]);
+                                }}
+                                className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                              >
+                                Visibility
+                              </button>
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -518,11 +987,38 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
                           </tr>
                           {selectedMessageId === message.id && (
                             <tr className="bg-gray-50 dark:bg-gray-700">
-                              <td colSpan={6} className="px-6 py-4">
+                              <td colSpan={isFifo ? 9 : 7} className="px-6 py-4">
                                 <div className="border-t border-gray-200 dark:border-gray-600 pt-3">
                                   <div className="text-sm text-gray-700 dark:text-gray-300">
-                                    {formatMessageBody(message.body)}
+                                    {schemaViolations.has(message.id) && (
+                                      <ul className="mb-2 text-xs font-mono text-red-600 dark:text-red-400">
+                                        {schemaViolations.get(message.id)?.map((violation, index) => (
+                                          <li key={index}>
+                                            <span className="font-semibold">{violation.path}</span> {violation.message}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    )}
+                                    {decodedBody && (
+                                      <div className="mb-2 flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                                        <span>
+                                          Decoded: {decodedBody.steps.map(step => step.summary ? `${step.label} (${step.summary})` : step.label).join(' → ')}
+                                        </span>
+                                        <button
+                                          type="button"
+                                          onClick={() => toggleRawBody(message.id)}
+                                          className="text-indigo-600 hover:text-indigo-900 dark:text-indigo-400 dark:hover:text-indigo-300"
+                                        >
+                                          {showRaw ? 'Show decoded' : 'Show raw'}
+                                        </button>
+                                      </div>
+                                    )}
+                                    {/* Schema violations point into the raw body, which is what the schema validates */}
+                                    {showRaw
+                                      ? formatMessageBody(message.body, schemaViolations.get(message.id))
+                                      : formatMessageBody(decodedBody.body)}
                                   </div>
+                                  <MessageAttributesView message={message} />
                                 </div>
                               </td>
                             </tr>
@@ -537,6 +1033,99 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
         </div>
       </div>
       
+      <ConsumePanel queueUrl={queueUrl} isFifo={isFifo} onAcknowledged={fetchMessages} />
+      
+      {isRedriveModalOpen && (
+        <RedriveModal
+          isOpen={isRedriveModalOpen}
+          queueUrl={queueUrl}
+          queueName={queueName}
+          selectedMessageIds={[...checkedMessageIds]}
+          approximateMessageCount={parseInt(currentAttributes?.ApproximateNumberOfMessages || '0', 10)}
+          onClose={() => setIsRedriveModalOpen(false)}
+          onSuccess={fetchMessages}
+        />
+      )}
+
+      {isExportModalOpen && (
+        <ExportMessagesModal
+          isOpen={isExportModalOpen}
+          queueName={queueName}
+          queueUrl={queueUrl}
+          onClose={() => setIsExportModalOpen(false)}
+        />
+      )}
+
+      {isImportModalOpen && (
+        <ImportMessagesModal
+          isOpen={isImportModalOpen}
+          queueUrl={queueUrl}
+          queueName={queueName}
+          requiresDeduplicationId={requiresDeduplicationId}
+          onClose={() => setIsImportModalOpen(false)}
+          onSuccess={fetchMessages}
+        />
+      )}
+
+      {isTransferModalOpen && (
+        <TransferMessagesModal
+          isOpen={isTransferModalOpen}
+          queueUrl={queueUrl}
+          queueName={queueName}
+          messageIds={[...checkedMessageIds]}
+          onClose={() => setIsTransferModalOpen(false)}
+          onSuccess={fetchMessages}
+        />
+      )}
+      
+      {isBulkDeleteModalOpen && (
+        <BulkDeleteModal
+          isOpen={isBulkDeleteModalOpen}
+          queueUrl={queueUrl}
+          queueName={queueName}
+          messageIds={[...checkedMessageIds]}
+          filter={messageFilter}
+          onClose={() => setIsBulkDeleteModalOpen(false)}
+          onDeleted={(deletedIds) => {
+            setMessages(prev => prev.filter(msg => !deletedIds.includes(msg.id)));
+            setCheckedMessageIds(prev => new Set([...prev].filter(id => !deletedIds.includes(id))));
+          }}
+        />
+      )}
+      
+      {editTarget && (
+        <EditMessageModal
+          isOpen={true}
+          queueUrl={queueUrl}
+          queueName={queueName}
+          message={editTarget}
+          onClose={() => setEditTarget(null)}
+          onReplaced={(messageId) => {
+            setMessages(prev => prev.filter(msg => msg.id !== messageId));
+            fetchMessages();
+          }}
+        />
+      )}
+      
+      {visibilityTargets && (
+        <ChangeVisibilityModal
+          isOpen={true}
+          queueUrl={queueUrl}
+          messages={visibilityTargets}
+          onClose={() => setVisibilityTargets(null)}
+          onChanged={(changed, receiptHandles) => {
+            setVisibleAt(prev => ({ ...prev, ...changed }));
+            setHeldMessages(prev => ({
+              ...prev,
+              ...Object.fromEntries(visibilityTargets
+                .filter(message => receiptHandles[message.id])
+                .map(message => [message.id, { ...message, receiptHandle: receiptHandles[message.id] }])),
+            }));
+            setNow(Date.now());
+          }}
+        />
+      )}
+      
       {/* Produce Message Side Drawer */}
       {isProduceModalOpen && (
         <div className="fixed inset-0 overflow-hidden z-50">
@@ -560,56 +1149,216 @@ export default function QueueDetail({ queueUrl, queueName, queueAttributes }: Qu
                         </svg>
                       </button>
                     </div>
-                    <div className="mt-1">
-                      <p className="text-sm text-gray-500 dark:text-gray-400">
-                        Enter a JSON message to send to this queue.
-                      </p>
-                    </div>
-                    <div className="mt-6">
-                      <div className="dark:bg-gray-900 rounded-md overflow-hidden">
-                        <AceEditor
-                          mode="json"
-                          theme="dracula"
-                          value={messageInput}
-                          onChange={(value) => {
-                            setMessageInput(value);
-                            validateJson(value);
-                          }}
-                          name="message-editor"
-                          editorProps={{ $blockScrolling: true }}
-                          setOptions={{
-                            showLineNumbers: true,
-                            tabSize: 2,
-                            useWorker: false,
-                          }}
-                          width="100%"
-                          height="300px"
-                          fontSize={14}
-                          showPrintMargin={false}
-                          className={`rounded-md border ${isValidJson ? 'border-gray-300 dark:border-gray-600' : 'border-red-500 dark:border-red-500'}`}
-                        />
-                      </div>
-                    </div>
-                    {sendError && (
-                      <div className="mt-2 text-sm text-red-600 dark:text-red-400">
-                        {sendError}
-                      </div>
-                    )}
-                    <div className="mt-5">
+                    <div className="mt-4 inline-flex shadow-sm rounded-md">
+                      <button
+                        type="button"
+                        onClick={() => setProduceMode('single')}
+                        className={`relative inline-flex items-center px-3 py-1 rounded-l-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
+                          produceMode === 'single'
+                            ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100'
+                            : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        Single Message
+                      </button>
                       <button
                         type="button"
-                        onClick={() => {
-                          handleSendMessage();
-                          if (!sendError) {
-                            toggleProduceModal();
-                          }
-                        }}
-                        disabled={sendingMessage || !messageInput.trim() || !isValidJson}
-                        className="inline-flex w-full justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                        onClick={() => setProduceMode('batch')}
+                        className={`relative inline-flex items-center px-3 py-1 rounded-r-md border border-gray-300 dark:border-gray-600 text-sm font-medium ${
+                          produceMode === 'batch'
+                            ? 'bg-indigo-100 dark:bg-indigo-800 text-indigo-700 dark:text-indigo-100'
+                            : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                        }`}
                       >
-                        {sendingMessage ? 'Sending...' : 'Send Message'}
+                        Batch
                       </button>
                     </div>
+                    {produceMode === 'batch' ? (
+                      <BatchProducePanel
+                        queueUrl={queueUrl}
+                        isFifo={isFifo}
+                        requiresDeduplicationId={requiresDeduplicationId}
+                        onComplete={fetchMessages}
+                      />
+                    ) : (
+                      <>
+                      <div className="mt-1">
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Enter a JSON message to send to this queue.
+                        </p>
+                      </div>
+                      <div className="mt-6">
+                        <div className="dark:bg-gray-900 rounded-md overflow-hidden">
+                          <AceEditor
+                            mode="json"
+                            theme="dracula"
+                            value={messageInput}
+                            onChange={(value) => {
+                              setMessageInput(value);
+                              validateJson(value);
+                            }}
+                            name="message-editor"
+                            editorProps={{ $blockScrolling: true }}
+                            setOptions={{
+                              showLineNumbers: true,
+                              tabSize: 2,
+                              useWorker: false,
+                            }}
+                            width="100%"
+                            height="300px"
+                            fontSize={14}
+                            showPrintMargin={false}
+                            className={`rounded-md border ${isValidJson && inputViolations.length === 0 ? 'border-gray-300 dark:border-gray-600' : 'border-red-500 dark:border-red-500'}`}
+                          />
+                        </div>
+                        {messageSchema && (
+                          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                            Validated against the message schema for {messageSchema.queue}.
+                          </p>
+                        )}
+                        {inputViolations.length > 0 && (
+                          <ul className="mt-1 text-xs font-mono text-red-600 dark:text-red-400">
+                            {inputViolations.map((violation, index) => (
+                              <li key={index}>
+                                <span className="font-semibold">{violation.path}</span> {violation.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      {isFifo && (
+                        <div className="mt-6 space-y-4">
+                          <div>
+                            <label htmlFor="messageGroupId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                              Message Group ID *
+                            </label>
+                            <input
+                              type="text"
+                              id="messageGroupId"
+                              value={messageGroupId}
+                              onChange={(e) => setMessageGroupId(e.target.value)}
+                              maxLength={128}
+                              placeholder="group-1"
+                              className="mt-1 block w-full border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              Messages in the same group are delivered in order.
+                            </p>
+                          </div>
+                          <div>
+                            <label htmlFor="messageDeduplicationId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                              Deduplication ID{requiresDeduplicationId && ' *'}
+                            </label>
+                            <input
+                              type="text"
+                              id="messageDeduplicationId"
+                              value={messageDeduplicationId}
+                              onChange={(e) => setMessageDeduplicationId(e.target.value)}
+                              maxLength={128}
+                              className="mt-1 block w-full border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              {requiresDeduplicationId
+                                ? 'Required because content-based deduplication is disabled for this queue.'
+                                : 'Optional. Defaults to a hash of the message body (content-based deduplication).'}
+                            </p>
+                          </div>
+                        </div>
+                      )}
+                      <div className="mt-6">
+                        <div className="flex justify-between items-center">
+                          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Message Attributes</h3>
+                          <button
+                            type="button"
+                            onClick={() => setAttributeRows([...attributeRows, { name: '', dataType: 'String', value: '' }])}
+                            disabled={attributeRows.length >= 10}
+                            className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-500 dark:hover:text-indigo-300 disabled:opacity-50"
+                          >
+                            + Add Attribute
+                          </button>
+                        </div>
+                        {attributeRows.map((row, index) => (
+                          <div key={index} className="mt-2 flex space-x-2">
+                            <input
+                              type="text"
+                              value={row.name}
+                              onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, name: e.target.value } : r))}
+                              placeholder="Name"
+                              className="w-1/3 border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <select
+                              value={row.dataType}
+                              onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, dataType: e.target.value as MessageAttributeRow['dataType'] } : r))}
+                              className="border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            >
+                              <option value="String">String</option>
+                              <option value="Number">Number</option>
+                              <option value="Binary">Binary</option>
+                            </select>
+                            <input
+                              type="text"
+                              value={row.value}
+                              onChange={(e) => setAttributeRows(attributeRows.map((r, i) => i === index ? { ...r, value: e.target.value } : r))}
+                              placeholder={row.dataType === 'Binary' ? 'Base64 value' : 'Value'}
+                              className="flex-1 min-w-0 border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            <button
+                              type="button"
+                              onClick={() => setAttributeRows(attributeRows.filter((_, i) => i !== index))}
+                              className="text-gray-400 hover:text-red-500"
+                            >
+                              <span className="sr-only">Remove attribute</span>
+                              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" strokeWidth="1.5" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                      {!isFifo && (
+                        <div className="mt-6">
+                          <label htmlFor="messageDelaySeconds" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Delay Seconds
+                          </label>
+                          <input
+                            type="number"
+                            id="messageDelaySeconds"
+                            value={delaySeconds}
+                            onChange={(e) => setDelaySeconds(e.target.value)}
+                            min="0"
+                            max="900"
+                            placeholder={queueAttributes?.DelaySeconds || '0'}
+                            className="mt-1 block w-full border dark:bg-gray-900 dark:text-white border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                          />
+                          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            Overrides the queue delay for this message (0-900 seconds).
+                          </p>
+                        </div>
+                      )}
+                      {sendError && (
+                        <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+                          {sendError}
+                        </div>
+                      )}
+                      <div className="mt-5">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            handleSendMessage();
+                            if (!sendError) {
+                              toggleProduceModal();
+                            }
+                          }}
+                          disabled={sendingMessage || !messageInput.trim() || !isValidJson || inputViolations.length > 0
+                            || (isFifo && !messageGroupId.trim())
+                            || (requiresDeduplicationId && !messageDeduplicationId.trim())}
+                          className="inline-flex w-full justify-center items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+                        >
+                          {sendingMessage ? 'Sending...' : 'Send Message'}
+                        </button>
+                      </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -2,9 +2,47 @@
 
 import { useState, useEffect } from 'react';
 import { QueueInfo } from '../lib/sqs';
+import { Alert } from '../lib/alerts';
+import { parseRedrivePolicy, queueNameFromArn, queueUrlFromArn } from '../lib/redrivePolicy';
 import Link from 'next/link';
 import CreateQueueModal from './CreateQueueModal';
 import DeleteQueueModal from './DeleteQueueModal';
+import { formatAlert } from './AlertIndicator';
+
+type QueueQuery = {
+  region?: string;
+  namePrefix?: string;
+  pageSize: number;
+};
+
+// Friendly names for the attributes the list can be sorted by
+const SORT_ATTRIBUTE_LABELS: Record<string, string> = {
+  ApproximateNumberOfMessages: 'Messages available',
+  ApproximateNumberOfMessagesNotVisible: 'Messages in flight',
+  ApproximateNumberOfMessagesDelayed: 'Messages delayed',
+  CreatedTimestamp: 'Created (age)',
+  LastModifiedTimestamp: 'Last modified',
+};
+
+// Only the attributes shown in the table or used for sorting are fetched for each queue
+const LIST_ATTRIBUTE_NAMES = [
+  ...Object.keys(SORT_ATTRIBUTE_LABELS),
+  'FifoQueue',
+  'QueueArn',
+  'RedrivePolicy',
+];
+
+const PAGE_SIZES = [10, 25, 50, 100];
+
+// Compares attribute values numerically when both are numbers, so "9" sorts before "10"
+const compareValues = (a = '', b = '') => {
+  const x = Number(a);
+  const y = Number(b);
+  if (a !== '' && b !== '' && !Number.isNaN(x) && !Number.isNaN(y)) {
+    return x - y;
+  }
+  return a.localeCompare(b);
+};
 
 export default function QueueList() {
   const [queues, setQueues] = useState<QueueInfo[]>([]);
@@ -13,21 +51,59 @@ export default function QueueList() {
   const [nextToken, setNextToken] = useState<string | undefined>(undefined);
   const [hasMore, setHasMore] = useState(false);
   const [page, setPage] = useState(1);
-  const PAGE_SIZE = 10;
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  // Token used to load each page we have seen (undefined for the first page), so we can go back
+  const [pageTokens, setPageTokens] = useState<(string | undefined)[]>([undefined]);
+  
+  // Server-side search by name prefix, applied when submitted
+  const [prefixInput, setPrefixInput] = useState('');
+  const [namePrefix, setNamePrefix] = useState('');
+  
+  // Client-side filtering and sorting of the loaded page
+  const [filterText, setFilterText] = useState('');
+  const [useRegex, setUseRegex] = useState(false);
+  const [sortKey, setSortKey] = useState('');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  
+  // Only set when the connection profile lists queues across several regions
+  const [regions, setRegions] = useState<string[]>([]);
+  const [regionErrors, setRegionErrors] = useState<{ region: string; error: string }[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [regionFilter, setRegionFilter] = useState('');
   
   // Modal states
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [selectedQueue, setSelectedQueue] = useState<QueueInfo | null>(null);
 
-  const fetchQueues = async (pageToken?: string) => {
+  // Firing alerts are shown next to the queue names; the list still works without them
+  const fetchAlerts = async () => {
+    try {
+      const response = await fetch('/api/alerts');
+      if (response.ok) {
+        const data = await response.json();
+        setAlerts(data.alerts);
+      }
+    } catch (err) {
+      console.error('Error fetching alerts:', err);
+    }
+  };
+
+  const fetchQueues = async (pageToken: string | undefined, query: QueueQuery) => {
     try {
       setLoading(true);
       const url = new URL('/api/queues', window.location.origin);
       if (pageToken) {
         url.searchParams.append('nextToken', pageToken);
       }
-      url.searchParams.append('limit', PAGE_SIZE.toString());
+      if (query.region) {
+        url.searchParams.append('region', query.region);
+      }
+      if (query.namePrefix) {
+        url.searchParams.append('prefix', query.namePrefix);
+      }
+      url.searchParams.append('limit', query.pageSize.toString());
+      url.searchParams.append('attributeNames', LIST_ATTRIBUTE_NAMES.join(','));
       
       const response = await fetch(url.toString());
       
@@ -39,6 +115,8 @@ export default function QueueList() {
       setQueues(data.items);
       setNextToken(data.nextToken);
       setHasMore(!!data.nextToken);
+      setRegions(data.regions || []);
+      setRegionErrors(data.regionErrors || []);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch queues');
       console.error('Error fetching queues:', err);
@@ -48,25 +126,52 @@ export default function QueueList() {
   };
 
   useEffect(() => {
-    fetchQueues();
+    fetchQueues(undefined, { pageSize: PAGE_SIZES[0] });
+    fetchAlerts();
   }, []);
 
+  const currentQuery = { region: regionFilter, namePrefix, pageSize };
+
+  // Starts over from the first page, e.g. after the search or page size changed
+  const resetPaging = (query: QueueQuery) => {
+    setPage(1);
+    setPageTokens([undefined]);
+    fetchQueues(undefined, query);
+  };
+
   const handleNextPage = () => {
     if (nextToken) {
-      fetchQueues(nextToken);
+      setPageTokens([...pageTokens.slice(0, page), nextToken]);
+      fetchQueues(nextToken, currentQuery);
       setPage(page + 1);
     }
   };
 
   const handlePreviousPage = () => {
-    // Unfortunately, SQS listing doesn't support going backwards in pagination
-    // We'll have to start from the beginning and go forward
+    // SQS tokens only go forward, so reuse the token we loaded the previous page with
     if (page > 1) {
-      fetchQueues();
-      setPage(1);
+      fetchQueues(pageTokens[page - 2], currentQuery);
+      setPage(page - 1);
     }
   };
 
+  const handleRegionFilterChange = (region: string) => {
+    setRegionFilter(region);
+    resetPaging({ ...currentQuery, region });
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const prefix = prefixInput.trim();
+    setNamePrefix(prefix);
+    resetPaging({ ...currentQuery, namePrefix: prefix });
+  };
+
+  const handlePageSizeChange = (size: number) => {
+    setPageSize(size);
+    resetPaging({ ...currentQuery, pageSize: size });
+  };
+
   if (loading && queues.length === 0) {
     return <div className="p-4 text-center dark:text-gray-300">Loading queues...</div>;
   }
@@ -79,23 +184,88 @@ export default function QueueList() {
     );
   }
 
+  // ARNs of the queues on this page that other queues on this page use as dead-letter queue
+  const deadLetterQueueArns = new Set(
+    queues
+      .map(queue => parseRedrivePolicy(queue.attributes)?.deadLetterTargetArn)
+      .filter((arn): arn is string => !!arn)
+  );
+
+  // Regions that could not be listed are reported above the table instead of failing the whole list
+  const regionErrorList = regionErrors.length > 0 && (
+    <div className="mb-4 rounded-md bg-red-50 dark:bg-red-900/30 p-3 text-sm text-red-700 dark:text-red-300">
+      {regionErrors.map(({ region, error }) => (
+        <p key={region}>Could not list queues in {region}: {error}</p>
+      ))}
+    </div>
+  );
+
+  const regionSelect = regions.length > 0 && (
+    <select
+      value={regionFilter}
+      onChange={(e) => handleRegionFilterChange(e.target.value)}
+      aria-label="Filter by region"
+      className="border border-gray-300 dark:border-gray-600 rounded-md py-2 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+    >
+      <option value="">All regions</option>
+      {regions.map(region => (
+        <option key={region} value={region}>{region}</option>
+      ))}
+    </select>
+  );
+
   const handleOpenDeleteModal = (queue: QueueInfo) => {
     setSelectedQueue(queue);
     setIsDeleteModalOpen(true);
   };
   
   const handleQueueCreated = () => {
-    fetchQueues();
+    fetchQueues(pageTokens[page - 1], currentQuery);
   };
   
   const handleQueueDeleted = () => {
-    fetchQueues();
+    fetchQueues(pageTokens[page - 1], currentQuery);
   };
   
-  if (queues.length === 0 && !loading) {
+  let filterPattern: RegExp | null = null;
+  let isValidFilter = true;
+  if (filterText && useRegex) {
+    try {
+      filterPattern = new RegExp(filterText, 'i');
+    } catch {
+      isValidFilter = false;
+    }
+  }
+  
+  const visibleQueues = queues
+    .filter(queue => {
+      if (!filterText || !isValidFilter) return true;
+      return filterPattern ? filterPattern.test(queue.name) : queue.name.toLowerCase().includes(filterText.toLowerCase());
+    })
+    .sort((a, b) => {
+      if (!sortKey) return 0;
+      const result = sortKey === 'name'
+        ? a.name.localeCompare(b.name)
+        : compareValues(a.attributes?.[sortKey], b.attributes?.[sortKey]);
+      return sortDirection === 'asc' ? result : -result;
+    });
+  
+  // Every attribute of the loaded queues can be sorted by, with the common ones first
+  const sortAttributes = [
+    ...Object.keys(SORT_ATTRIBUTE_LABELS),
+    ...Array.from(new Set(queues.flatMap(queue => Object.keys(queue.attributes || {}))))
+      .filter(name => !(name in SORT_ATTRIBUTE_LABELS))
+      .sort(),
+  ];
+  
+  const isSearching = !!namePrefix || !!regionFilter;
+  
+  if (queues.length === 0 && !loading && !isSearching) {
     return (
       <div className="p-4">
-        <div className="flex justify-end mb-4">
+        {regionErrorList}
+        <div className="flex justify-end mb-4 space-x-2">
+          {regionSelect}
           <button
             onClick={() => setIsCreateModalOpen(true)}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -129,14 +299,78 @@ export default function QueueList() {
     <div>
       <div className="flex justify-between items-center mb-4">
         <h2 className="text-lg font-medium text-gray-900 dark:text-white">Your Queues</h2>
+        <div className="flex items-center space-x-2">
+          {regionSelect}
+          <button
+            onClick={() => setIsCreateModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Create Queue
+          </button>
+        </div>
+      </div>
+      
+      {regionErrorList}
+      
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <form onSubmit={handleSearch} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={prefixInput}
+            onChange={(e) => setPrefixInput(e.target.value)}
+            placeholder="Queue name prefix"
+            aria-label="Queue name prefix"
+            className="border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            Search
+          </button>
+        </form>
+        <input
+          type="text"
+          value={filterText}
+          onChange={(e) => setFilterText(e.target.value)}
+          placeholder={useRegex ? 'Filter this page (regex)' : 'Filter this page'}
+          aria-label="Filter queues on this page"
+          className={`border rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 ${
+            isValidFilter ? 'border-gray-300 dark:border-gray-600' : 'border-red-500 dark:border-red-500'
+          }`}
+        />
+        <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={useRegex}
+            onChange={(e) => setUseRegex(e.target.checked)}
+            className="mr-1 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+          />
+          Regex
+        </label>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value)}
+          aria-label="Sort queues by"
+          className="border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+        >
+          <option value="">Unsorted</option>
+          <option value="name">Sort by name</option>
+          {sortAttributes.map(name => (
+            <option key={name} value={name}>Sort by {SORT_ATTRIBUTE_LABELS[name] || name}</option>
+          ))}
+        </select>
         <button
-          onClick={() => setIsCreateModalOpen(true)}
-          className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          type="button"
+          onClick={() => setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')}
+          disabled={!sortKey}
+          className="inline-flex items-center px-3 py-1 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
         >
-          <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          Create Queue
+          {sortDirection === 'asc' ? 'Ascending' : 'Descending'}
         </button>
       </div>
       
@@ -147,6 +381,11 @@ export default function QueueList() {
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Queue Name
               </th>
+              {regions.length > 0 && (
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                  Region
+                </th>
+              )}
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Type
               </th>
@@ -156,22 +395,51 @@ export default function QueueList() {
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Messages In Flight
               </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                Dead-letter Queue
+              </th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                 Actions
               </th>
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-gray-900 divide-y divide-gray-200 dark:divide-gray-700">
-            {queues.map((queue) => {
+            {visibleQueues.length === 0 && (
+              <tr>
+                <td colSpan={regions.length > 0 ? 7 : 6} className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No queues match the current search or filter
+                </td>
+              </tr>
+            )}
+            {visibleQueues.map((queue) => {
               // Base64 encode the queue URL to use in the URL route
               const encodedUrl = Buffer.from(queue.url).toString('base64');
               const isFifo = queue.attributes?.FifoQueue === 'true';
+              const redrivePolicy = parseRedrivePolicy(queue.attributes);
+              const isDeadLetterQueue = !!queue.attributes?.QueueArn && deadLetterQueueArns.has(queue.attributes.QueueArn);
+              const queueAlerts = alerts.filter(alert => alert.queueUrl === queue.url);
               
               return (
                 <tr key={queue.url}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
                     {queue.name}
+                    {isDeadLetterQueue && (
+                      <span className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100">DLQ</span>
+                    )}
+                    {queueAlerts.length > 0 && (
+                      <span
+                        className="ml-2 px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100"
+                        title={queueAlerts.map(formatAlert).join('\n')}
+                      >
+                        Alert
+                      </span>
+                    )}
                   </td>
+                  {regions.length > 0 && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {queue.region}
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {isFifo ? 
                       <span className="px-2 py-1 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100">FIFO</span> : 
@@ -184,6 +452,17 @@ export default function QueueList() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
                     {queue.attributes?.ApproximateNumberOfMessagesNotVisible || '0'}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {redrivePolicy ? (
+                      <Link
+                        href={`/queues/${Buffer.from(queueUrlFromArn(redrivePolicy.deadLetterTargetArn, queue.url)).toString('base64')}`}
+                        className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                        title={`Moved after ${redrivePolicy.maxReceiveCount} receives`}
+                      >
+                        {queueNameFromArn(redrivePolicy.deadLetterTargetArn)}
+                      </Link>
+                    ) : '-'}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400 flex space-x-2">
                     <Link 
                       href={`/queues/${encodedUrl}`} 
@@ -207,8 +486,18 @@ export default function QueueList() {
       
       {/* Pagination Controls */}
       <div className="mt-4 flex justify-between items-center px-6 py-3 border-t border-gray-200 dark:border-gray-700">
-        <div className="text-sm text-gray-700 dark:text-gray-300">
-          Page {page}
+        <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+          <span>Page {page}</span>
+          <select
+            value={pageSize}
+            onChange={(e) => handlePageSizeChange(Number(e.target.value))}
+            aria-label="Queues per page"
+            className="border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            {PAGE_SIZES.map(size => (
+              <option key={size} value={size}>{size} per page</option>
+            ))}
+          </select>
         </div>
         <div className="flex space-x-2">
           <button
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { QueueMetricsSample } from '../lib/queueMetrics';
+
+interface QueueMetricsPanelProps {
+  queueUrl: string; // Base64 encoded URL
+}
+
+type ChartSeries = {
+  label: string;
+  values: (number | undefined)[];
+  colorClass: string; // Tailwind stroke color of the line
+};
+
+const formatRate = (value: number) => `${value < 10 ? value.toFixed(2) : Math.round(value)}/s`;
+
+// Draws the series as lines scaled to a shared maximum; gaps in a series break its line
+function MetricsChart({ title, series, format = String }: {
+  title: string;
+  series: ChartSeries[];
+  format?: (value: number) => string;
+}) {
+  const width = 300;
+  const height = 80;
+  const count = Math.max(...series.map(s => s.values.length));
+  const max = Math.max(1, ...series.flatMap(s => s.values.filter((value): value is number => value !== undefined)));
+
+  const toPath = (values: (number | undefined)[]) => values
+    .map((value, index) => {
+      if (value === undefined) return null;
+      const x = count > 1 ? (index / (count - 1)) * width : width;
+      const y = height - (value / max) * height;
+      const isLineStart = index === 0 || values[index - 1] === undefined;
+      return `${isLineStart ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div>
+      <div className="flex justify-between items-baseline mb-1">
+        <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">{title}</h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400">max {format(max)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 bg-gray-50 dark:bg-gray-900 rounded"
+        role="img"
+        aria-label={title}
+      >
+        {series.map(s => (
+          <path
+            key={s.label}
+            d={toPath(s.values)}
+            fill="none"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className={s.colorClass}
+          />
+        ))}
+      </svg>
+      <div className="mt-1 flex space-x-3">
+        {series.map(s => {
+          const latest = [...s.values].reverse().find(value => value !== undefined);
+          return (
+            <span key={s.label} className="text-xs text-gray-700 dark:text-gray-300">
+              {s.label}: <span className="font-semibold">{latest !== undefined ? format(latest) : '-'}</span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default function QueueMetricsPanel({ queueUrl }: QueueMetricsPanelProps) {
+  const [samples, setSamples] = useState<QueueMetricsSample[]>([]);
+  const [intervalSeconds, setIntervalSeconds] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let timer: number | undefined;
+    let isUnmounted = false;
+    // Poll at the rate the server samples the queue, and keep retrying after errors
+    let delaySeconds = 10;
+
+    const fetchMetrics = async () => {
+      try {
+        const response = await fetch(`/api/queues/${queueUrl}/metrics`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch queue metrics');
+        }
+
+        const data = await response.json();
+        setSamples(data.samples);
+        setIntervalSeconds(data.intervalSeconds);
+        setError(null);
+        delaySeconds = data.intervalSeconds;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch queue metrics');
+        console.error('Error fetching queue metrics:', err);
+      } finally {
+        if (!isUnmounted) {
+          timer = window.setTimeout(fetchMetrics, delaySeconds * 1000);
+        }
+      }
+    };
+
+    fetchMetrics();
+
+    return () => {
+      isUnmounted = true;
+      window.clearTimeout(timer);
+    };
+  }, [queueUrl]);
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const minutes = first && last ? Math.round((last.timestamp - first.timestamp) / 60000) : 0;
+
+  // Compare how fast messages arrive and leave over the last few samples
+  const recent = samples.slice(-6);
+  const averageRate = (key: 'enqueueRate' | 'dequeueRate') => {
+    const rates = recent.map(sample => sample[key]).filter((rate): rate is number => rate !== undefined);
+    return rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : undefined;
+  };
+  const enqueueRate = averageRate('enqueueRate');
+  const dequeueRate = averageRate('dequeueRate');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow dark:shadow-gray-700 sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">Metrics</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {intervalSeconds
+                ? `Sampled every ${intervalSeconds}s on the server while this page is open (last ${minutes} min)`
+                : 'Loading metrics...'}
+            </p>
+          </div>
+          {enqueueRate !== undefined && dequeueRate !== undefined && (
+            <span
+              className={`px-2 py-1 text-xs font-medium rounded-full ${
+                enqueueRate > dequeueRate
+                  ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100'
+                  : 'bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100'
+              }`}
+            >
+              {enqueueRate > dequeueRate ? 'Backlog growing' : 'Consumers keeping up'}
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <MetricsChart
+            title="Messages Available"
+            series={[{ label: 'Available', values: samples.map(sample => sample.visible), colorClass: 'stroke-indigo-600' }]}
+          />
+          <MetricsChart
+            title="Messages In Flight"
+            series={[{ label: 'In flight', values: samples.map(sample => sample.inFlight), colorClass: 'stroke-blue-500' }]}
+          />
+          <MetricsChart
+            title="Delayed Messages"
+            series={[{ label: 'Delayed', values: samples.map(sample => sample.delayed), colorClass: 'stroke-gray-500' }]}
+          />
+          <MetricsChart
+            title="Net Enqueue / Dequeue Rate"
+            format={formatRate}
+            series={[
+              { label: 'Enqueue', values: samples.map(sample => sample.enqueueRate), colorClass: 'stroke-yellow-500' },
+              { label: 'Dequeue', values: samples.map(sample => sample.dequeueRate), colorClass: 'stroke-green-500' },
+            ]}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { QueueInfo, RedriveResult } from '../lib/sqs';
+
+interface RedriveModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded URL of the queue messages are moved from
+  queueName: string;
+  selectedMessageIds: string[];
+  approximateMessageCount: number;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type RedriveMode = 'all' | 'selected' | 'count';
+
+// Number of messages moved per API request, so progress can be reported between requests
+const BATCH_SIZE = 20;
+
+export default function RedriveModal({
+  isOpen,
+  queueUrl,
+  queueName,
+  selectedMessageIds,
+  approximateMessageCount,
+  onClose,
+  onSuccess
+}: RedriveModalProps) {
+  const [sourceQueues, setSourceQueues] = useState<QueueInfo[]>([]);
+  const [allQueues, setAllQueues] = useState<QueueInfo[]>([]);
+  const [targetQueueUrl, setTargetQueueUrl] = useState('');
+  const [mode, setMode] = useState<RedriveMode>(selectedMessageIds.length > 0 ? 'selected' : 'all');
+  const [maxMessages, setMaxMessages] = useState('10');
+  const [isRunning, setIsRunning] = useState(false);
+  const [movedCount, setMovedCount] = useState(0);
+  const [failures, setFailures] = useState<RedriveResult['failed']>([]);
+  const [notFound, setNotFound] = useState<string[]>([]);
+  const [releaseFailed, setReleaseFailed] = useState(0); // Messages left hidden until their visibility timeout ends
+  const [totalCount, setTotalCount] = useState(0);
+  const [isFinished, setIsFinished] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRequested = useRef(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchTargets = async () => {
+      try {
+        const [redriveResponse, queuesResponse] = await Promise.all([
+          fetch(`/api/queues/${queueUrl}/redrive`),
+          fetch('/api/queues?limit=1000&attributes=false'),
+        ]);
+
+        if (!redriveResponse.ok || !queuesResponse.ok) {
+          throw new Error('Failed to fetch target queues');
+        }
+
+        const { sourceQueues } = await redriveResponse.json();
+        const { items } = await queuesResponse.json();
+        const currentQueueUrl = Buffer.from(queueUrl, 'base64').toString('utf-8');
+
+        setSourceQueues(sourceQueues);
+        setAllQueues((items as QueueInfo[]).filter(queue => queue.url !== currentQueueUrl));
+        // Default to the first queue that uses this queue as its dead-letter queue
+        setTargetQueueUrl(sourceQueues[0]?.url || '');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch target queues');
+        console.error('Error fetching redrive targets:', err);
+      }
+    };
+
+    fetchTargets();
+  }, [isOpen, queueUrl]);
+
+  const requestRedrive = async (body: Record<string, unknown>): Promise<RedriveResult> => {
+    const response = await fetch(`/api/queues/${queueUrl}/redrive`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ targetQueueUrl, ...body }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to redrive messages');
+    }
+
+    return response.json();
+  };
+
+  const handleRedrive = async () => {
+    try {
+      setIsRunning(true);
+      setIsFinished(false);
+      setError(null);
+      setMovedCount(0);
+      setFailures([]);
+      setNotFound([]);
+      setReleaseFailed(0);
+      cancelRequested.current = false;
+
+      if (mode === 'selected') {
+        setTotalCount(selectedMessageIds.length);
+        const result = await requestRedrive({ messageIds: selectedMessageIds });
+        setMovedCount(result.moved.length);
+        setFailures(result.failed);
+        setNotFound(result.notFound);
+        setReleaseFailed(result.releaseFailed);
+      } else {
+        const limit = mode === 'count' ? Number(maxMessages) : Number.POSITIVE_INFINITY;
+        setTotalCount(mode === 'count' ? limit : approximateMessageCount);
+
+        let moved = 0;
+        while (!cancelRequested.current && moved < limit) {
+          const result = await requestRedrive({ maxMessages: Math.min(BATCH_SIZE, limit - moved) });
+          moved += result.moved.length;
+          setMovedCount(moved);
+          setFailures(prev => [...prev, ...result.failed]);
+          setReleaseFailed(prev => prev + result.releaseFailed);
+
+          if (result.error) {
+            setError(result.error);
+            break;
+          }
+
+          // Stop when the queue is drained, or when nothing could be moved to avoid looping on failures
+          if (result.done || result.moved.length === 0) {
+            break;
+          }
+        }
+      }
+
+      setIsFinished(true);
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redrive messages');
+      console.error('Error redriving messages:', err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const progressTotal = Math.max(totalCount, movedCount);
+  const progressPercent = progressTotal > 0 ? Math.round((movedCount / progressTotal) * 100) : 0;
+  const isValid = targetQueueUrl && (mode !== 'count' || Number(maxMessages) > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={isRunning ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-md p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Redrive Messages
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 disabled:opacity-50"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Move messages from <strong className="font-semibold">{queueName}</strong> to another queue. Each message is deleted only after it was sent to the target queue.
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="targetQueue" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Target Queue *
+              </label>
+              <select
+                id="targetQueue"
+                value={targetQueueUrl}
+                onChange={(e) => setTargetQueueUrl(e.target.value)}
+                disabled={isRunning}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Select a queue...</option>
+                {sourceQueues.length > 0 && (
+                  <optgroup label="Source queues of this DLQ">
+                    {sourceQueues.map(queue => (
+                      <option key={queue.url} value={queue.url}>{queue.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="All queues">
+                  {allQueues.map(queue => (
+                    <option key={queue.url} value={queue.url}>{queue.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+
+            <fieldset className="mb-4 space-y-2">
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Messages to move
+              </legend>
+              <div className="flex items-center">
+                <input
+                  id="redriveAll"
+                  type="radio"
+                  checked={mode === 'all'}
+                  onChange={() => setMode('all')}
+                  disabled={isRunning}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                />
+                <label htmlFor="redriveAll" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  All messages (~{approximateMessageCount})
+                </label>
+              </div>
+              <div className="flex items-center">
+                <input
+                  id="redriveSelected"
+                  type="radio"
+                  checked={mode === 'selected'}
+                  onChange={() => setMode('selected')}
+                  disabled={isRunning || selectedMessageIds.length === 0}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                />
+                <label htmlFor="redriveSelected" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Selected messages ({selectedMessageIds.length})
+                </label>
+              </div>
+              <div className="flex items-center">
+                <input
+                  id="redriveCount"
+                  type="radio"
+                  checked={mode === 'count'}
+                  onChange={() => setMode('count')}
+                  disabled={isRunning}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                />
+                <label htmlFor="redriveCount" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Up to
+                </label>
+                <input
+                  type="number"
+                  value={maxMessages}
+                  onChange={(e) => setMaxMessages(e.target.value)}
+                  onFocus={() => setMode('count')}
+                  min="1"
+                  disabled={isRunning}
+                  className="ml-2 w-24 border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-1 px-2 text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">messages</span>
+              </div>
+            </fieldset>
+
+            {(isRunning || isFinished) && (
+              <div className="mb-4">
+                <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                  <div className="h-2 bg-indigo-600 dark:bg-indigo-500 transition-all" style={{ width: `${progressPercent}%` }}></div>
+                </div>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {isRunning ? 'Moving messages... ' : 'Finished: '}
+                  {movedCount} moved{failures.length > 0 && `, ${failures.length} failed`}{notFound.length > 0 && `, ${notFound.length} not found`}
+                </p>
+                {failures.length > 0 && (
+                  <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-red-600 dark:text-red-400 font-mono">
+                    {failures.map((failure, index) => (
+                      <li key={`${failure.id}-${index}`}>{failure.id}: {failure.error}</li>
+                    ))}
+                  </ul>
+                )}
+                {releaseFailed > 0 && (
+                  <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-400">
+                    {releaseFailed} received messages stay hidden until their visibility timeout ends.
+                  </p>
+                )}
+                {notFound.length > 0 && (
+                  <ul className="mt-2 max-h-32 overflow-y-auto text-xs text-yellow-700 dark:text-yellow-400 font-mono">
+                    {notFound.map(id => (
+                      <li key={id}>{id}: not found in queue</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              {isRunning ? (
+                <button
+                  type="button"
+                  onClick={() => { cancelRequested.current = true; }}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  {isFinished ? 'Close' : 'Cancel'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleRedrive}
+                disabled={isRunning || !isValid}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isRunning ? 'Redriving...' : 'Start Redrive'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
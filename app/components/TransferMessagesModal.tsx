@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { QueueInfo, TransferMode, TransferResult } from '../lib/sqs';
+
+interface TransferMessagesModalProps {
+  isOpen: boolean;
+  queueUrl: string; // Base64 encoded URL of the queue messages are copied or moved from
+  queueName: string;
+  messageIds: string[];
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+// Number of messages per API request; each request is a pass over the source queue, so larger batches
+// mean fewer passes, while per-message results still show up while the transfer runs
+const BATCH_SIZE = 20;
+
+export default function TransferMessagesModal({
+  isOpen,
+  queueUrl,
+  queueName,
+  messageIds,
+  onClose,
+  onSuccess
+}: TransferMessagesModalProps) {
+  const [queues, setQueues] = useState<QueueInfo[]>([]);
+  const [targetQueueUrl, setTargetQueueUrl] = useState('');
+  const [mode, setMode] = useState<TransferMode>('copy');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [results, setResults] = useState<TransferResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRequested = useRef(false);
+
+  // The IDs are captured when the modal opens, as the selection can change when messages are refreshed
+  const [transferIds] = useState(messageIds);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchQueues = async () => {
+      try {
+        const response = await fetch('/api/queues?limit=1000&attributes=false');
+        if (!response.ok) {
+          throw new Error('Failed to fetch queues');
+        }
+
+        const { items } = await response.json();
+        const currentQueueUrl = Buffer.from(queueUrl, 'base64').toString('utf-8');
+        setQueues((items as QueueInfo[]).filter(queue => queue.url !== currentQueueUrl));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch queues');
+        console.error('Error fetching queues:', err);
+      }
+    };
+
+    fetchQueues();
+  }, [isOpen, queueUrl]);
+
+  const handleTransfer = async () => {
+    try {
+      setIsRunning(true);
+      setIsFinished(false);
+      setError(null);
+      setResults([]);
+      cancelRequested.current = false;
+
+      for (let offset = 0; offset < transferIds.length && !cancelRequested.current; offset += BATCH_SIZE) {
+        const response = await fetch(`/api/queues/${queueUrl}/messages/transfer`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            targetQueueUrl,
+            messageIds: transferIds.slice(offset, offset + BATCH_SIZE),
+            mode,
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `Failed to ${mode} messages`);
+        }
+
+        const { results: batchResults } = await response.json();
+        setResults(prev => [...prev, ...batchResults]);
+      }
+
+      setIsFinished(true);
+      onSuccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${mode} messages`);
+      console.error(`Error transferring messages (${mode}):`, err);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const succeededCount = results.filter(result => result.success).length;
+  const failedCount = results.length - succeededCount;
+  const progressPercent = transferIds.length > 0 ? Math.round((results.length / transferIds.length) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen p-4 text-center">
+        <div
+          className="fixed inset-0 bg-gray-500 opacity-75 dark:bg-gray-800 dark:opacity-75 transition-opacity"
+          onClick={isRunning ? undefined : onClose}
+        ></div>
+
+        <div className="inline-block w-full max-w-lg p-6 my-8 overflow-hidden text-left align-middle bg-white dark:bg-gray-900 rounded-lg shadow-xl transform transition-all relative z-50">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-medium leading-6 text-gray-900 dark:text-white">
+              Copy or Move Messages
+            </h3>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300 disabled:opacity-50"
+              onClick={onClose}
+              disabled={isRunning}
+            >
+              <span className="sr-only">Close</span>
+              <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Send {transferIds.length} selected {transferIds.length === 1 ? 'message' : 'messages'} from <strong className="font-semibold">{queueName}</strong> to another queue.
+            </p>
+
+            <div className="mb-4">
+              <label htmlFor="transferTargetQueue" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Target Queue *
+              </label>
+              <select
+                id="transferTargetQueue"
+                value={targetQueueUrl}
+                onChange={(e) => setTargetQueueUrl(e.target.value)}
+                disabled={isRunning}
+                className="mt-1 block w-full border dark:bg-gray-800 dark:text-white border-gray-300 dark:border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="">Select a queue...</option>
+                {queues.map(queue => (
+                  <option key={queue.url} value={queue.url}>{queue.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <fieldset className="mb-4 space-y-2">
+              <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Action
+              </legend>
+              <div className="flex items-center">
+                <input
+                  id="transferCopy"
+                  type="radio"
+                  checked={mode === 'copy'}
+                  onChange={() => setMode('copy')}
+                  disabled={isRunning}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                />
+                <label htmlFor="transferCopy" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Copy (messages stay in this queue)
+                </label>
+              </div>
+              <div className="flex items-center">
+                <input
+                  id="transferMove"
+                  type="radio"
+                  checked={mode === 'move'}
+                  onChange={() => setMode('move')}
+                  disabled={isRunning}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500"
+                />
+                <label htmlFor="transferMove" className="ml-2 text-sm text-gray-700 dark:text-gray-300">
+                  Move (each message is deleted here after it was sent to the target queue)
+                </label>
+              </div>
+            </fieldset>
+
+            {(isRunning || results.length > 0) && (
+              <div className="mb-4">
+                <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded overflow-hidden">
+                  <div className="h-2 bg-indigo-600 dark:bg-indigo-500 transition-all" style={{ width: `${progressPercent}%` }}></div>
+                </div>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {isRunning ? `${mode === 'copy' ? 'Copying' : 'Moving'} messages... ` : 'Finished: '}
+                  {succeededCount} {mode === 'copy' ? 'copied' : 'moved'}{failedCount > 0 && `, ${failedCount} failed`}
+                </p>
+                <ul className="mt-2 max-h-48 overflow-y-auto text-xs font-mono">
+                  {results.map(result => (
+                    <li
+                      key={result.id}
+                      className={result.success ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}
+                    >
+                      {result.id}: {result.success ? `sent as ${result.targetMessageId || 'new message'}` : result.error}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </div>
+            )}
+
+            <div className="mt-6 flex justify-end space-x-3">
+              {isRunning ? (
+                <button
+                  type="button"
+                  onClick={() => { cancelRequested.current = true; }}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="inline-flex justify-center py-2 px-4 border border-gray-300 dark:border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                >
+                  {isFinished ? 'Close' : 'Cancel'}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleTransfer}
+                disabled={isRunning || isFinished || !targetQueueUrl || transferIds.length === 0}
+                className="inline-flex justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+              >
+                {isRunning ? 'Working...' : mode === 'copy' ? 'Copy Messages' : 'Move Messages'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
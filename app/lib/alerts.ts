@@ -0,0 +1,331 @@
+// Alerting rules on queue depth and message age, evaluated in the background for every connection profile.
+// Rules are read from the SQS_ALERT_RULES environment variable (a JSON array) or from the JSON file referenced
+// by SQS_ALERT_RULES_FILE. When an alert starts or stops firing it is posted to SQS_ALERT_WEBHOOK_URL.
+
+import { readFileSync } from 'fs';
+import { GetMetricStatisticsCommand } from '@aws-sdk/client-cloudwatch';
+import {
+  ConnectionProfile,
+  DEFAULT_PROFILE_NAME,
+  getConnectionProfile,
+  getProfileCloudWatchClient,
+  getProfileRegions,
+} from './connectionProfiles';
+import { parseRedrivePolicy, queueNameFromArn } from './redrivePolicy';
+import { getActiveProfile, getProfileQueueAttributes, listQueues, QueueInfo } from './sqs';
+
+// The age of the oldest message is only published to CloudWatch, not returned by GetQueueAttributes
+export const ALERT_METRICS = [
+  'ApproximateNumberOfMessages',
+  'ApproximateNumberOfMessagesNotVisible',
+  'ApproximateNumberOfMessagesDelayed',
+  'ApproximateAgeOfOldestMessage',
+] as const;
+
+export type AlertMetric = typeof ALERT_METRICS[number];
+
+export type AlertRule = {
+  name: string;
+  profile?: string; // Defaults to the default profile
+  queue: string; // Queue name, or a pattern where * matches any characters (e.g. "orders-*", "*-dlq" or "*" for all queues)
+  deadLetterQueues?: boolean; // Only queues that are the dead-letter queue of another queue
+  metric: AlertMetric;
+  threshold: number; // Fires when the metric is above the threshold; seconds for the message age
+};
+
+export type Alert = {
+  rule: string;
+  profile: string;
+  queueUrl: string;
+  queueName: string;
+  metric: AlertMetric;
+  threshold: number;
+  value: number;
+  since: number; // Timestamp in milliseconds of the evaluation that started firing
+};
+
+const DEFAULT_EVALUATION_INTERVAL_SECONDS = 60;
+
+function readAlertRules(): AlertRule[] {
+  let json = process.env.SQS_ALERT_RULES;
+
+  if (!json && process.env.SQS_ALERT_RULES_FILE) {
+    try {
+      json = readFileSync(process.env.SQS_ALERT_RULES_FILE, 'utf-8');
+    } catch (error) {
+      console.error(`Error reading alert rules from ${process.env.SQS_ALERT_RULES_FILE}:`, error);
+      return [];
+    }
+  }
+
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      console.error('Alert rules must be a JSON array');
+      return [];
+    }
+
+    return parsed.filter((rule: AlertRule) => {
+      if (!rule?.name || !rule.queue) {
+        console.error('Ignoring alert rule without a name or queue:', rule?.name);
+        return false;
+      }
+      if (!ALERT_METRICS.includes(rule.metric)) {
+        console.error(`Ignoring alert rule ${rule.name}: metric must be one of ${ALERT_METRICS.join(', ')}`);
+        return false;
+      }
+      if (typeof rule.threshold !== 'number' || Number.isNaN(rule.threshold)) {
+        console.error(`Ignoring alert rule ${rule.name}: threshold must be a number`);
+        return false;
+      }
+      if (rule.deadLetterQueues !== undefined && typeof rule.deadLetterQueues !== 'boolean') {
+        console.error(`Ignoring alert rule ${rule.name}: deadLetterQueues must be true or false`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.error('Error parsing alert rules:', error);
+    return [];
+  }
+}
+
+let cachedRules: AlertRule[] | null = null;
+
+export function getAlertRules(): AlertRule[] {
+  if (!cachedRules) {
+    cachedRules = readAlertRules();
+    if (cachedRules.length > 0) {
+      console.log(`Loaded alert rules: ${cachedRules.map(rule => rule.name).join(', ')}`);
+    }
+  }
+  return cachedRules;
+}
+
+// Firing alerts, keyed by profile, rule and queue URL
+const firingAlerts = new Map<string, Alert>();
+
+let evaluationTimer: ReturnType<typeof setInterval> | undefined;
+let isEvaluating = false;
+
+function queuePatternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+async function listRegionQueues(profile: ConnectionProfile, region: string, namePrefix: string): Promise<QueueInfo[]> {
+  const queues: QueueInfo[] = [];
+  let nextToken: string | undefined;
+  do {
+    const result = await listQueues(nextToken, 1000, { region, namePrefix, profile });
+    if (result.error) {
+      throw new Error(`Failed to list queues in ${region}: ${result.error}`);
+    }
+    queues.push(...result.items);
+    nextToken = result.nextToken;
+  } while (nextToken);
+  return queues;
+}
+
+/**
+ * Returns the names of the queues that are the dead-letter queue of a queue in the region.
+ * SQS has no reverse lookup, so this reads the RedrivePolicy of every queue in the region.
+ */
+async function getDeadLetterQueueNames(profile: ConnectionProfile, queues: QueueInfo[]): Promise<Set<string>> {
+  const names = new Set<string>();
+  for (const queue of queues) {
+    const attributes = await getProfileQueueAttributes(profile, queue.url, ['RedrivePolicy']);
+    const policy = parseRedrivePolicy(attributes);
+    if (policy?.deadLetterTargetArn) {
+      names.add(queueNameFromArn(policy.deadLetterTargetArn));
+    }
+  }
+  return names;
+}
+
+async function listRuleQueues(profile: ConnectionProfile, rule: AlertRule): Promise<(QueueInfo & { region: string })[]> {
+  // ListQueues only filters on a prefix, so list by the part before the first * and match the rest here
+  const namePrefix = rule.queue.split('*')[0];
+  const namePattern = queuePatternToRegExp(rule.queue);
+  const queues: (QueueInfo & { region: string })[] = [];
+
+  for (const region of getProfileRegions(profile)) {
+    let regionQueues = await listRegionQueues(profile, region, rule.deadLetterQueues ? '' : namePrefix);
+
+    if (rule.deadLetterQueues) {
+      const deadLetterQueueNames = await getDeadLetterQueueNames(profile, regionQueues);
+      regionQueues = regionQueues.filter(queue => deadLetterQueueNames.has(queue.name));
+    }
+
+    queues.push(...regionQueues
+      .filter(queue => namePattern.test(queue.name))
+      .map(queue => ({ ...queue, region })));
+  }
+
+  return queues;
+}
+
+async function getOldestMessageAge(profile: ConnectionProfile, region: string, queueName: string): Promise<number | undefined> {
+  const client = getProfileCloudWatchClient(profile, region);
+  const now = Date.now();
+
+  // SQS publishes its metrics every minute, with a few minutes of delay
+  const response = await client.send(new GetMetricStatisticsCommand({
+    Namespace: 'AWS/SQS',
+    MetricName: 'ApproximateAgeOfOldestMessage',
+    Dimensions: [{ Name: 'QueueName', Value: queueName }],
+    StartTime: new Date(now - 15 * 60 * 1000),
+    EndTime: new Date(now),
+    Period: 60,
+    Statistics: ['Maximum'],
+  }));
+
+  const latest = (response.Datapoints || [])
+    .filter(datapoint => datapoint.Timestamp && datapoint.Maximum !== undefined)
+    .sort((a, b) => (b.Timestamp as Date).getTime() - (a.Timestamp as Date).getTime())[0];
+  return latest?.Maximum;
+}
+
+async function getMetricValue(profile: ConnectionProfile, queue: QueueInfo & { region: string }, metric: AlertMetric): Promise<number | undefined> {
+  if (metric === 'ApproximateAgeOfOldestMessage') {
+    return getOldestMessageAge(profile, queue.region, queue.name);
+  }
+
+  const attributes = await getProfileQueueAttributes(profile, queue.url, [metric]);
+  return attributes[metric] !== undefined ? parseInt(attributes[metric], 10) : undefined;
+}
+
+async function notifyWebhook(status: 'firing' | 'resolved', alert: Alert): Promise<void> {
+  const webhookUrl = process.env.SQS_ALERT_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return;
+  }
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        status,
+        alert,
+        text: `[${status.toUpperCase()}] ${alert.rule}: ${alert.metric} of ${alert.queueName} is ${alert.value} (threshold ${alert.threshold})`,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error(`Alert webhook returned ${response.status} for ${alert.rule} on ${alert.queueName}`);
+    }
+  } catch (error) {
+    console.error(`Error posting alert ${alert.rule} on ${alert.queueName} to the webhook:`, error);
+  }
+}
+
+async function evaluateRule(rule: AlertRule): Promise<void> {
+  const profile = getConnectionProfile(rule.profile || DEFAULT_PROFILE_NAME);
+  if (rule.profile && profile.name !== rule.profile) {
+    console.error(`Alert rule ${rule.name} refers to unknown connection profile ${rule.profile}`);
+    return;
+  }
+
+  const queues = await listRuleQueues(profile, rule);
+  const evaluatedKeys = new Set<string>();
+
+  for (const queue of queues) {
+    const key = `${profile.name}|${rule.name}|${queue.url}`;
+    evaluatedKeys.add(key);
+
+    let value: number | undefined;
+    try {
+      value = await getMetricValue(profile, queue, rule.metric);
+    } catch (error) {
+      // Keep the previous state when a queue cannot be evaluated
+      console.error(`Error evaluating alert rule ${rule.name} on queue ${queue.url}:`, error);
+      continue;
+    }
+
+    const firing = firingAlerts.get(key);
+    if (value !== undefined && value > rule.threshold) {
+      if (firing) {
+        firing.value = value;
+      } else {
+        const alert: Alert = {
+          rule: rule.name,
+          profile: profile.name,
+          queueUrl: queue.url,
+          queueName: queue.name,
+          metric: rule.metric,
+          threshold: rule.threshold,
+          value,
+          since: Date.now(),
+        };
+        firingAlerts.set(key, alert);
+        console.log(`Alert ${rule.name} firing on queue ${queue.url} (${rule.metric} ${value} > ${rule.threshold})`);
+        await notifyWebhook('firing', alert);
+      }
+    } else if (firing) {
+      firingAlerts.delete(key);
+      console.log(`Alert ${rule.name} resolved on queue ${queue.url}`);
+      await notifyWebhook('resolved', { ...firing, value: value ?? 0 });
+    }
+  }
+
+  // Queues that no longer exist cannot fire
+  for (const [key, alert] of firingAlerts) {
+    if (alert.rule === rule.name && alert.profile === profile.name && !evaluatedKeys.has(key)) {
+      firingAlerts.delete(key);
+    }
+  }
+}
+
+/**
+ * Evaluates every alert rule once. Exported so rules can be checked on demand, e.g. against LocalStack.
+ */
+export async function evaluateAlertRules(): Promise<void> {
+  // An evaluation of many queues can outlast the interval; skip a round rather than overlap
+  if (isEvaluating) {
+    return;
+  }
+
+  isEvaluating = true;
+  try {
+    for (const rule of getAlertRules()) {
+      try {
+        await evaluateRule(rule);
+      } catch (error) {
+        console.error(`Error evaluating alert rule ${rule.name}:`, error);
+      }
+    }
+  } finally {
+    isEvaluating = false;
+  }
+}
+
+/**
+ * Starts evaluating the alert rules in the background, if any are configured.
+ */
+export function startAlertEvaluation(): void {
+  if (evaluationTimer || getAlertRules().length === 0) {
+    return;
+  }
+
+  const intervalSeconds = parseInt(process.env.SQS_ALERT_INTERVAL_SECONDS || '', 10) || DEFAULT_EVALUATION_INTERVAL_SECONDS;
+  console.log(`Evaluating ${getAlertRules().length} alert rules every ${intervalSeconds} seconds`);
+
+  evaluationTimer = setInterval(evaluateAlertRules, intervalSeconds * 1000);
+  evaluateAlertRules();
+}
+
+/**
+ * Returns the alerts firing for the connection profile of the current request.
+ */
+export async function getFiringAlerts(): Promise<Alert[]> {
+  startAlertEvaluation();
+  const profile = await getActiveProfile();
+  return Array.from(firingAlerts.values()).filter(alert => alert.profile === profile.name);
+}
@@ -0,0 +1,178 @@
+// Parsing of batch message input (JSON array, NDJSON, CSV) and template based message generation.
+// These are plain functions without SDK imports so they can be used from client components.
+
+export type BatchInputFormat = 'json' | 'ndjson' | 'csv';
+
+export type ParsedBatchInput = {
+  bodies: string[];
+  errors: string[]; // Human readable errors for entries that could not be parsed, e.g. "Line 3: ..."
+};
+
+const stringifyBody = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value);
+
+export function detectBatchInputFormat(fileName: string, content: string): BatchInputFormat {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.csv')) return 'csv';
+  if (lowerName.endsWith('.ndjson') || lowerName.endsWith('.jsonl')) return 'ndjson';
+  if (lowerName.endsWith('.json')) return 'json';
+  return content.trimStart().startsWith('[') ? 'json' : 'ndjson';
+}
+
+/**
+ * Splits CSV text into rows of fields, supporting quoted fields with escaped quotes and embedded newlines.
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Parses batch input into message bodies. JSON values that are not strings are sent as their JSON text.
+ * CSV rows are turned into JSON objects keyed by the header row.
+ */
+export function parseBatchInput(content: string, format: BatchInputFormat): ParsedBatchInput {
+  const bodies: string[] = [];
+  const errors: string[] = [];
+
+  if (format === 'json') {
+    try {
+      const parsed = JSON.parse(content);
+      if (!Array.isArray(parsed)) {
+        return { bodies, errors: ['JSON input must be an array of messages'] };
+      }
+      parsed.forEach(item => bodies.push(stringifyBody(item)));
+    } catch (e) {
+      errors.push('Invalid JSON: ' + (e instanceof Error ? e.message : 'Unknown error'));
+    }
+  } else if (format === 'ndjson') {
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        bodies.push(stringifyBody(JSON.parse(line)));
+      } catch (e) {
+        errors.push(`Line ${index + 1}: ` + (e instanceof Error ? e.message : 'Invalid JSON'));
+      }
+    });
+  } else {
+    const [header, ...rows] = parseCsvRows(content);
+    if (!header) {
+      return { bodies, errors: ['CSV input must have a header row'] };
+    }
+    rows.forEach((row, index) => {
+      if (row.length !== header.length) {
+        errors.push(`Row ${index + 2}: expected ${header.length} columns but found ${row.length}`);
+        return;
+      }
+      const message: Record<string, string> = {};
+      header.forEach((column, columnIndex) => {
+        message[column.trim()] = row[columnIndex];
+      });
+      bodies.push(JSON.stringify(message));
+    });
+  }
+
+  return { bodies, errors };
+}
+
+const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
+
+const RANDOM_STRING_CHARACTERS = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+/**
+ * Generates a version 4 UUID. crypto.randomUUID is only available in secure contexts, so pages served
+ * over plain HTTP, e.g. from the Docker image, build one from crypto.getRandomValues instead.
+ */
+export function randomUuid(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Renders a template for the message with the given (1-based) sequence number. Supported placeholders:
+ * {{seq}}, {{uuid}}, {{timestamp}} (ISO 8601), {{epoch}} (milliseconds), {{randomInt:min:max}},
+ * {{randomFloat:min:max}}, {{randomString:length}} and {{pick:a|b|c}}.
+ */
+export function renderTemplate(template: string, sequence: number): string {
+  return template.replace(/\{\{\s*(\w+)((?::[^:}]*)*)\s*\}\}/g, (placeholder, name: string, argText: string) => {
+    const args = argText ? argText.slice(1).split(':') : [];
+
+    switch (name) {
+      case 'seq':
+        return sequence.toString();
+      case 'uuid':
+        return randomUuid();
+      case 'timestamp':
+        return new Date().toISOString();
+      case 'epoch':
+        return Date.now().toString();
+      case 'randomInt':
+        return randomInt(Number(args[0] ?? 0), Number(args[1] ?? 1000000)).toString();
+      case 'randomFloat': {
+        const min = Number(args[0] ?? 0);
+        const max = Number(args[1] ?? 1);
+        return (Math.random() * (max - min) + min).toString();
+      }
+      case 'randomString':
+        return Array.from(
+          { length: Number(args[0] ?? 8) },
+          () => RANDOM_STRING_CHARACTERS[randomInt(0, RANDOM_STRING_CHARACTERS.length - 1)]
+        ).join('');
+      case 'pick': {
+        const choices = (args[0] ?? '').split('|');
+        return choices[randomInt(0, choices.length - 1)];
+      }
+      default:
+        // Leave unknown placeholders untouched so typos are visible in the sent messages
+        return placeholder;
+    }
+  });
+}
+
+export function generateFromTemplate(template: string, count: number): string[] {
+  return Array.from({ length: count }, (_, index) => renderTemplate(template, index + 1));
+}
@@ -0,0 +1,225 @@
+// Named connection profiles, each pointing at an account and region (or a local endpoint such as LocalStack).
+// Profiles are read from the SQS_PROFILES environment variable (a JSON array) or from the JSON file
+// referenced by SQS_PROFILES_FILE. The "default" profile is always available and is built from the
+// AWS_REGION, SQS_ENDPOINT and CLOUDWATCH_ENDPOINT environment variables, as before profiles were supported.
+// A profile with several regions lists the queues of all of them in one overview.
+
+import { readFileSync } from 'fs';
+import { SQSClient, SQSClientConfig } from '@aws-sdk/client-sqs';
+import { CloudWatchClient } from '@aws-sdk/client-cloudwatch';
+import { fromIni, fromTemporaryCredentials } from '@aws-sdk/credential-providers';
+import { AwsCredentialIdentity, AwsCredentialIdentityProvider } from '@aws-sdk/types';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+// Cookie holding the name of the profile selected in the header
+export const PROFILE_COOKIE_NAME = 'sqsadmin-profile';
+
+// Where the credentials come from: the SDK default provider chain, keys in the profile itself,
+// or a profile from the shared AWS config and credentials files
+export type CredentialsSource = 'default' | 'static' | 'sharedProfile';
+
+export type ConnectionProfile = {
+  name: string;
+  region: string;
+  regions?: string[]; // Regions listed in the queue overview, defaults to just the region above
+  endpoint?: string;
+  cloudWatchEndpoint?: string; // Defaults to the regional CloudWatch endpoint, also when endpoint is set
+  credentials?: CredentialsSource; // Defaults to 'default'
+  accessKeyId?: string; // For 'static' credentials
+  secretAccessKey?: string;
+  sessionToken?: string;
+  awsProfile?: string; // For 'sharedProfile' credentials
+  roleArn?: string; // Optional role assumed with the credentials above
+  externalId?: string;
+};
+
+// What the browser gets to see of a profile: everything except the secrets
+export type ConnectionProfileSummary = {
+  name: string;
+  region: string;
+  regions: string[];
+  endpoint?: string;
+  credentials: CredentialsSource;
+  roleArn?: string;
+};
+
+function getDefaultProfile(): ConnectionProfile {
+  const profile: ConnectionProfile = {
+    name: DEFAULT_PROFILE_NAME,
+    region: process.env.AWS_REGION || 'us-east-1',
+    credentials: 'default',
+  };
+
+  if (process.env.SQS_REGIONS) {
+    profile.regions = process.env.SQS_REGIONS.split(',').map(region => region.trim()).filter(Boolean);
+  }
+
+  // Use local endpoint if specified (for development/testing)
+  if (process.env.SQS_ENDPOINT) {
+    profile.endpoint = process.env.SQS_ENDPOINT;
+    // For local development, we don't need real credentials
+    profile.credentials = 'static';
+    profile.accessKeyId = process.env.AWS_ACCESS_KEY_ID || 'test';
+    profile.secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY || 'test';
+  }
+
+  if (process.env.CLOUDWATCH_ENDPOINT) {
+    profile.cloudWatchEndpoint = process.env.CLOUDWATCH_ENDPOINT;
+  }
+
+  return profile;
+}
+
+function readConfiguredProfiles(): ConnectionProfile[] {
+  let json = process.env.SQS_PROFILES;
+
+  if (!json && process.env.SQS_PROFILES_FILE) {
+    try {
+      json = readFileSync(process.env.SQS_PROFILES_FILE, 'utf-8');
+    } catch (error) {
+      console.error(`Error reading connection profiles from ${process.env.SQS_PROFILES_FILE}:`, error);
+      return [];
+    }
+  }
+
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      console.error('Connection profiles must be a JSON array');
+      return [];
+    }
+
+    return parsed.filter((profile: ConnectionProfile) => {
+      if (!profile?.name || !profile.region) {
+        console.error('Ignoring connection profile without a name or region:', profile?.name);
+        return false;
+      }
+      if (profile.credentials === 'static' && (!profile.accessKeyId || !profile.secretAccessKey)) {
+        console.error(`Ignoring connection profile ${profile.name}: static credentials need an access key ID and secret`);
+        return false;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.error('Error parsing connection profiles:', error);
+    return [];
+  }
+}
+
+let cachedProfiles: ConnectionProfile[] | null = null;
+
+export function getConnectionProfiles(): ConnectionProfile[] {
+  if (!cachedProfiles) {
+    const configured = readConfiguredProfiles();
+    // A configured profile named "default" replaces the one built from the environment
+    cachedProfiles = configured.some(profile => profile.name === DEFAULT_PROFILE_NAME)
+      ? configured
+      : [getDefaultProfile(), ...configured];
+    console.log(`Loaded connection profiles: ${cachedProfiles.map(profile => profile.name).join(', ')}`);
+  }
+  return cachedProfiles;
+}
+
+/**
+ * Returns the profile with the given name, falling back to the default profile for unknown names.
+ */
+export function getConnectionProfile(name?: string): ConnectionProfile {
+  const profiles = getConnectionProfiles();
+  return profiles.find(profile => profile.name === name)
+    || profiles.find(profile => profile.name === DEFAULT_PROFILE_NAME)
+    || profiles[0];
+}
+
+export function getProfileRegions(profile: ConnectionProfile): string[] {
+  return profile.regions && profile.regions.length > 0 ? profile.regions : [profile.region];
+}
+
+export function toProfileSummary(profile: ConnectionProfile): ConnectionProfileSummary {
+  return {
+    name: profile.name,
+    region: profile.region,
+    regions: getProfileRegions(profile),
+    endpoint: profile.endpoint,
+    credentials: profile.credentials || 'default',
+    roleArn: profile.roleArn,
+  };
+}
+
+function buildCredentials(profile: ConnectionProfile): AwsCredentialIdentity | AwsCredentialIdentityProvider | undefined {
+  let credentials: AwsCredentialIdentity | AwsCredentialIdentityProvider | undefined;
+
+  if (profile.credentials === 'static') {
+    credentials = {
+      accessKeyId: profile.accessKeyId || '',
+      secretAccessKey: profile.secretAccessKey || '',
+      sessionToken: profile.sessionToken,
+    };
+  } else if (profile.credentials === 'sharedProfile') {
+    credentials = fromIni({ profile: profile.awsProfile });
+  }
+
+  if (profile.roleArn) {
+    // Without base credentials the role is assumed with the credentials of the default provider chain
+    return fromTemporaryCredentials({
+      masterCredentials: credentials,
+      params: {
+        RoleArn: profile.roleArn,
+        ExternalId: profile.externalId,
+        RoleSessionName: 'sqsadmin',
+      },
+      clientConfig: { region: profile.region },
+    });
+  }
+
+  return credentials;
+}
+
+// Clients are reused across requests, so credentials (and assumed role sessions) are cached per profile and region
+const clients = new Map<string, SQSClient>();
+
+export function getProfileClient(profile: ConnectionProfile, region: string = profile.region): SQSClient {
+  const key = `${profile.name}/${region}`;
+  let client = clients.get(key);
+
+  if (!client) {
+    const clientConfig: SQSClientConfig = {
+      region,
+      endpoint: profile.endpoint,
+      credentials: buildCredentials(profile),
+    };
+
+    console.log(`Creating SQS client for profile ${profile.name} (region ${region}${profile.endpoint ? `, endpoint ${profile.endpoint}` : ''})`);
+    client = new SQSClient(clientConfig);
+    clients.set(key, client);
+  }
+
+  return client;
+}
+
+const cloudWatchClients = new Map<string, CloudWatchClient>();
+
+/**
+ * CloudWatch client of a profile, for queue metrics that GetQueueAttributes does not return
+ * (such as the age of the oldest message). The SQS endpoint is not reused, since it is often an
+ * SQS-only VPC endpoint.
+ */
+export function getProfileCloudWatchClient(profile: ConnectionProfile, region: string = profile.region): CloudWatchClient {
+  const key = `${profile.name}/${region}`;
+  let client = cloudWatchClients.get(key);
+
+  if (!client) {
+    client = new CloudWatchClient({
+      region,
+      endpoint: profile.cloudWatchEndpoint,
+      credentials: buildCredentials(profile),
+    });
+    cloudWatchClients.set(key, client);
+  }
+
+  return client;
+}
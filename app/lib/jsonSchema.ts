@@ -0,0 +1,234 @@
+// Validation of message bodies against JSON Schemas, in the browser and on the server.
+// Covers the keywords payload schemas use in practice: type, enum, const, properties, required,
+// additionalProperties, items, the length, size and range keywords, pattern, allOf/anyOf/oneOf/not
+// and local $ref into definitions or $defs. Other keywords such as format are ignored.
+
+export type JsonSchema = boolean | { [keyword: string]: unknown };
+
+export type SchemaViolation = {
+  path: string; // JSONPath-style location of the failing value, e.g. $.order.items[0].sku
+  message: string;
+};
+
+type SchemaObject = { [keyword: string]: unknown };
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+// Relative tolerance for multipleOf, as decimal divisors such as 0.01 are not exact in binary floating point
+const MULTIPLE_OF_EPSILON = 1e-9;
+
+const childPath = (path: string, key: string | number) =>
+  typeof key === 'number' ? `${path}[${key}]` : IDENTIFIER_PATTERN.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+
+function isMultipleOf(value: number, divisor: number): boolean {
+  const quotient = value / divisor;
+  return Math.abs(quotient - Math.round(quotient)) <= MULTIPLE_OF_EPSILON * Math.max(1, Math.abs(quotient));
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+// Resolves a local reference such as #/definitions/address or #/$defs/address against the root schema
+function resolveRef(root: JsonSchema, ref: string): JsonSchema {
+  if (!ref.startsWith('#')) {
+    throw new Error(`Only local references are supported: ${ref}`);
+  }
+
+  let current: unknown = root;
+  for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+    if (current === null || typeof current !== 'object' || !Object.hasOwn(current, key)) {
+      throw new Error(`Unresolvable reference: ${ref}`);
+    }
+    current = (current as SchemaObject)[key];
+  }
+  return current as JsonSchema;
+}
+
+function validate(schema: JsonSchema, value: unknown, path: string, root: JsonSchema, violations: SchemaViolation[]): void {
+  if (schema === true) return;
+  if (schema === false) {
+    violations.push({ path, message: 'is not allowed' });
+    return;
+  }
+
+  const s = schema as SchemaObject;
+
+  if (typeof s.$ref === 'string') {
+    validate(resolveRef(root, s.$ref), value, path, root, violations);
+  }
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type as string[] : [s.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      violations.push({ path, message: `must be ${types.join(' or ')}, got ${typeOf(value)}` });
+      // The remaining keywords would only repeat the type mismatch
+      return;
+    }
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    violations.push({ path, message: `must be one of ${s.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if ('const' in s && JSON.stringify(s.const) !== JSON.stringify(value)) {
+    violations.push({ path, message: `must be ${JSON.stringify(s.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (typeof s.minLength === 'number' && value.length < s.minLength) {
+      violations.push({ path, message: `must have at least ${s.minLength} characters` });
+    }
+    if (typeof s.maxLength === 'number' && value.length > s.maxLength) {
+      violations.push({ path, message: `must have at most ${s.maxLength} characters` });
+    }
+    if (typeof s.pattern === 'string' && !new RegExp(s.pattern, 'u').test(value)) {
+      violations.push({ path, message: `must match ${s.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof s.minimum === 'number' && value < s.minimum) {
+      violations.push({ path, message: `must be at least ${s.minimum}` });
+    }
+    if (typeof s.maximum === 'number' && value > s.maximum) {
+      violations.push({ path, message: `must be at most ${s.maximum}` });
+    }
+    if (typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) {
+      violations.push({ path, message: `must be greater than ${s.exclusiveMinimum}` });
+    }
+    if (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum) {
+      violations.push({ path, message: `must be less than ${s.exclusiveMaximum}` });
+    }
+    if (typeof s.multipleOf === 'number' && !isMultipleOf(value, s.multipleOf)) {
+      violations.push({ path, message: `must be a multiple of ${s.multipleOf}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof s.minItems === 'number' && value.length < s.minItems) {
+      violations.push({ path, message: `must have at least ${s.minItems} items` });
+    }
+    if (typeof s.maxItems === 'number' && value.length > s.maxItems) {
+      violations.push({ path, message: `must have at most ${s.maxItems} items` });
+    }
+    if (s.items !== undefined && !Array.isArray(s.items)) {
+      value.forEach((item, index) => validate(s.items as JsonSchema, item, childPath(path, index), root, violations));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = (s.properties || {}) as Record<string, JsonSchema>;
+
+
+    // Own properties only, so names such as constructor or toString are not taken from the prototype
+    if (Array.isArray(s.required)) {
+      for (const name of s.required as string[]) {
+        if (!Object.hasOwn(object, name)) {
+          violations.push({ path, message: `must have required property ${JSON.stringify(name)}` });
+        }
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (Object.hasOwn(properties, name)) {
+        validate(properties[name], propertyValue, childPath(path, name), root, violations);
+      } else if (s.additionalProperties === false) {
+        violations.push({ path: childPath(path, name), message: 'is not an allowed property' });
+      } else if (s.additionalProperties !== undefined && s.additionalProperties !== true) {
+        validate(s.additionalProperties as JsonSchema, propertyValue, childPath(path, name), root, violations);
+      }
+    }
+  }
+
+  if (Array.isArray(s.allOf)) {
+    (s.allOf as JsonSchema[]).forEach(subschema => validate(subschema, value, path, root, violations));
+  }
+
+  if (Array.isArray(s.anyOf) || Array.isArray(s.oneOf)) {
+    const subschemas = (s.anyOf || s.oneOf) as JsonSchema[];
+    const passing = subschemas.filter(subschema => validateJsonSchema(subschema, value, root).length === 0).length;
+    if (Array.isArray(s.anyOf) && passing === 0) {
+      violations.push({ path, message: 'must match at least one of the allowed schemas' });
+    } else if (Array.isArray(s.oneOf) && passing !== 1) {
+      violations.push({ path, message: `must match exactly one of the allowed schemas, matches ${passing}` });
+    }
+  }
+
+  if (s.not !== undefined && validateJsonSchema(s.not as JsonSchema, value, root).length === 0) {
+    violations.push({ path, message: 'must not match the excluded schema' });
+  }
+}
+
+/**
+ * Validates a parsed value against a schema and returns every violation, or an empty array when it is valid.
+ * Subschemas pass the root schema along so their references resolve against it.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, root: JsonSchema = schema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  try {
+    validate(schema, value, '$', root, violations);
+  } catch (error) {
+    violations.push({ path: '$', message: error instanceof Error ? error.message : 'Invalid schema' });
+  }
+  return violations;
+}
+
+/**
+ * Validates a message body, which has to be JSON to match a schema.
+ */
+export function validateMessageBody(schema: JsonSchema, body: string): SchemaViolation[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    return [{ path: '$', message: 'is not valid JSON' }];
+  }
+  return validateJsonSchema(schema, value);
+}
+
+/**
+ * Finds the line of every value in JSON.stringify(value, null, 2), keyed by the paths violations use,
+ * so violations can be pointed out in the formatted message body.
+ */
+export function findJsonPathLines(value: unknown): Map<string, number> {
+  const lines = new Map<string, number>();
+  let line = 0;
+
+  const visit = (current: unknown, path: string) => {
+    lines.set(path, line);
+
+    const entries: [string | number, unknown][] = Array.isArray(current)
+      ? current.map((item, index) => [index, item])
+      : typeOf(current) === 'object'
+        ? Object.entries(current as Record<string, unknown>).filter(([, item]) => item !== undefined)
+        : [];
+
+    // Empty objects and arrays stay on one line, like primitive values
+    if (entries.length === 0) return;
+
+    for (const [key, item] of entries) {
+      line++;
+      visit(item, childPath(path, key));
+    }
+    line++; // The closing bracket
+  };
+
+  visit(value, '$');
+  return lines;
+}
@@ -0,0 +1,192 @@
+// Decoders that unwrap message bodies into the payload they carry: SNS notifications, EventBridge events,
+// S3 event notifications, gzip compressed and base64 encoded bodies. Decoders are tried in order and applied
+// repeatedly, so an SNS notification carrying a gzip+base64 payload is unwrapped in three steps.
+// A new format is supported by adding a decoder to MESSAGE_DECODERS. Used in the browser to show messages
+// and by the message filter, in the browser and on the server.
+
+import { decompressSync } from 'fflate';
+
+export type MessageDecoder = {
+  name: string;
+  label: string;
+  // Returns the inner payload and an optional one-line description, or null when the body is not in this format
+  decode: (body: string) => { body: string; summary?: string } | null;
+};
+
+export type DecodeStep = {
+  decoder: string;
+  label: string;
+  summary?: string;
+};
+
+export type DecodedMessageBody = {
+  body: string; // The innermost payload, or the original body when no decoder applied
+  steps: DecodeStep[]; // Outermost first
+};
+
+// Guards against bodies that keep decoding, e.g. text that happens to be valid base64 at every level
+const MAX_DECODE_STEPS = 5;
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})+(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+// Short strings such as "test" or "true" are valid base64 too, but hardly ever meant as such
+const MIN_BASE64_LENGTH = 16;
+
+// Upper bound for a decompressed body, so a small compressed message cannot expand to exhaust memory
+const MAX_DECOMPRESSED_BYTES = 1024 * 1024;
+
+function parseJsonObject(body: string): Record<string, unknown> | null {
+  const trimmed = body.trim();
+  if (!trimmed.startsWith('{')) return null;
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function base64ToBytes(body: string): Uint8Array | null {
+  const compact = body.replace(/\s+/g, '');
+  if (compact.length < MIN_BASE64_LENGTH || !BASE64_PATTERN.test(compact)) return null;
+  try {
+    return Uint8Array.from(atob(compact), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+// Decoded bytes only count as text when they are valid UTF-8 without control characters other than whitespace
+function bytesToText(bytes: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+const snsDecoder: MessageDecoder = {
+  name: 'sns',
+  label: 'SNS notification',
+  decode: body => {
+    const envelope = parseJsonObject(body);
+    if (envelope?.Type !== 'Notification' || typeof envelope.TopicArn !== 'string' || typeof envelope.Message !== 'string') {
+      return null;
+    }
+    const topic = envelope.TopicArn.split(':').pop();
+    return {
+      body: envelope.Message,
+      summary: typeof envelope.Subject === 'string' && envelope.Subject ? `${topic}: ${envelope.Subject}` : topic,
+    };
+  },
+};
+
+const eventBridgeDecoder: MessageDecoder = {
+  name: 'eventBridge',
+  label: 'EventBridge event',
+  decode: body => {
+    const event = parseJsonObject(body);
+    if (!event || typeof event.source !== 'string' || typeof event['detail-type'] !== 'string' || !('detail' in event)) {
+      return null;
+    }
+    return {
+      body: typeof event.detail === 'string' ? event.detail : JSON.stringify(event.detail),
+      summary: `${event.source} ${event['detail-type']}`,
+    };
+  },
+};
+
+// Keys in S3 notifications are URL encoded with spaces as plus signs
+function decodeObjectKey(key: string): string {
+  try {
+    return decodeURIComponent(key.replace(/\+/g, ' '));
+  } catch {
+    return key;
+  }
+}
+
+// S3 notifications are the payload themselves, so they are reduced to what happened to which objects
+const s3Decoder: MessageDecoder = {
+  name: 's3',
+  label: 'S3 event notification',
+  decode: body => {
+    const notification = parseJsonObject(body);
+    const records = notification?.Records;
+    if (!Array.isArray(records) || records.length === 0 || !records.every(record => record?.eventSource === 'aws:s3')) {
+      return null;
+    }
+    const objects = records.map(record => ({
+      event: record.eventName,
+      bucket: record.s3?.bucket?.name,
+      key: record.s3?.object?.key !== undefined ? decodeObjectKey(String(record.s3.object.key)) : undefined,
+      size: record.s3?.object?.size,
+      time: record.eventTime,
+    }));
+    return {
+      body: JSON.stringify(objects),
+      summary: objects.length === 1 ? `${objects[0].event} s3://${objects[0].bucket}/${objects[0].key}` : `${objects.length} objects`,
+    };
+  },
+};
+
+const gzipDecoder: MessageDecoder = {
+  name: 'gzip',
+  label: 'gzip',
+  decode: body => {
+    const bytes = base64ToBytes(body);
+    // gzip starts with 1f 8b; zlib streams with 78 and a header checksum
+    const isGzip = bytes && bytes[0] === 0x1f && bytes[1] === 0x8b;
+    const isZlib = bytes && bytes[0] === 0x78 && ((bytes[0] << 8) | bytes[1]) % 31 === 0;
+    if (!bytes || (!isGzip && !isZlib)) return null;
+    try {
+      // Decompress into a buffer one byte larger than allowed: filling it means the body is too large to show
+      const out = new Uint8Array(MAX_DECOMPRESSED_BYTES + 1);
+      const decompressed = decompressSync(bytes, { out });
+      if (decompressed.length > MAX_DECOMPRESSED_BYTES) return null;
+      const text = bytesToText(decompressed);
+      return text === null ? null : { body: text };
+    } catch {
+      return null;
+    }
+  },
+};
+
+const base64Decoder: MessageDecoder = {
+  name: 'base64',
+  label: 'base64',
+  decode: body => {
+    const bytes = base64ToBytes(body);
+    const text = bytes && bytesToText(bytes);
+    return text ? { body: text } : null;
+  },
+};
+
+// Envelopes first, then encodings; gzip before base64 since compressed bodies are base64 encoded too
+export const MESSAGE_DECODERS: MessageDecoder[] = [snsDecoder, eventBridgeDecoder, s3Decoder, gzipDecoder, base64Decoder];
+
+/**
+ * Unwraps a message body with the first decoder that recognizes it, repeatedly, until none does.
+ */
+export function decodeMessageBody(body: string, decoders: MessageDecoder[] = MESSAGE_DECODERS): DecodedMessageBody {
+  const steps: DecodeStep[] = [];
+  let current = body;
+
+  while (steps.length < MAX_DECODE_STEPS) {
+    let applied: MessageDecoder | undefined;
+    let decoded: ReturnType<MessageDecoder['decode']> = null;
+    for (const decoder of decoders) {
+      decoded = decoder.decode(current);
+      if (decoded) {
+        applied = decoder;
+        break;
+      }
+    }
+    if (!applied || !decoded) break;
+
+    steps.push({ decoder: applied.name, label: applied.label, summary: decoded.summary });
+    current = decoded.body;
+  }
+
+  return { body: current, steps };
+}
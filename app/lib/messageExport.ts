@@ -0,0 +1,70 @@
+// Serialization of messages for export downloads (NDJSON, JSON array or CSV).
+// The NDJSON records are also the input format of the message import.
+
+import { Message, MessageAttribute } from './sqs';
+
+export type ExportFormat = 'ndjson' | 'json' | 'csv';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+export type ExportedMessage = {
+  id: string;
+  body: string;
+  sentTimestamp?: string; // ISO 8601
+  attributes?: Record<string, string | undefined>;
+  messageAttributes?: Record<string, MessageAttribute>;
+};
+
+const CSV_COLUMNS = ['id', 'sentTimestamp', 'messageGroupId', 'body', 'attributes', 'messageAttributes'];
+
+export function toExportedMessage(message: Message): ExportedMessage {
+  return {
+    id: message.id,
+    body: message.body,
+    sentTimestamp: message.timestamp ? new Date(message.timestamp).toISOString() : undefined,
+    attributes: message.attributes,
+    messageAttributes: message.messageAttributes,
+  };
+}
+
+const escapeCsvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Returns the text written before the first message, e.g. the CSV header row.
+ */
+export function formatExportHeader(format: ExportFormat): string {
+  if (format === 'json') return '[\n';
+  if (format === 'csv') return CSV_COLUMNS.join(',') + '\r\n';
+  return '';
+}
+
+export function formatExportFooter(format: ExportFormat, messageCount: number): string {
+  if (format === 'json') return messageCount > 0 ? '\n]\n' : ']\n';
+  return '';
+}
+
+/**
+ * Formats a single message. The index is used to place separators between JSON array elements.
+ */
+export function formatExportedMessage(message: ExportedMessage, format: ExportFormat, index: number): string {
+  if (format === 'ndjson') {
+    return JSON.stringify(message) + '\n';
+  }
+
+  if (format === 'json') {
+    return (index > 0 ? ',\n' : '') + '  ' + JSON.stringify(message);
+  }
+
+  return [
+    message.id,
+    message.sentTimestamp || '',
+    message.attributes?.MessageGroupId || '',
+    message.body,
+    message.attributes ? JSON.stringify(message.attributes) : '',
+    message.messageAttributes ? JSON.stringify(message.messageAttributes) : '',
+  ].map(escapeCsvField).join(',') + '\r\n';
+}
@@ -0,0 +1,217 @@
+// Filters for peeked messages: a match on the body (substring, regular expression or JSONPath-style
+// field predicates such as $.order.status == "FAILED") combined with filters on message attributes.
+// Used by the filter bar in the browser and by the messages API when it filters while peeking deeper.
+
+import { Message } from './sqs';
+import { decodeMessageBody } from './messageDecoders';
+
+export type MessageMatchMode = 'substring' | 'regex' | 'jsonPath';
+
+export type MessageFilter = {
+  query?: string;
+  mode: MessageMatchMode;
+  minReceiveCount?: number; // Only messages received more than this many times
+  sentAfter?: number; // Timestamps in milliseconds
+  sentBefore?: number;
+  decoded?: boolean; // Match the body unwrapped by the message decoders instead of the raw body
+};
+
+type Comparison = '==' | '!=' | '>' | '>=' | '<' | '<=' | '=~';
+
+type FieldPredicate = {
+  path: (string | number)[];
+  comparison?: Comparison; // Without a comparison the field only has to exist
+  value?: unknown;
+};
+
+// $.field, $.nested.field, $.items[0], $['field with spaces'] followed by an optional comparison
+const PREDICATE_PATTERN = /^\$((?:\.[A-Za-z_$][\w$-]*|\[\d+\]|\['[^']*'\]|\["[^"]*"\])*)\s*(?:(==|!=|>=|<=|>|<|=~)\s*(.+))?$/;
+const PATH_SEGMENT_PATTERN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g;
+
+// Splits predicates joined with && outside of quoted strings
+function splitPredicates(query: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < query.length; i++) {
+    const char = query[i];
+    if (quote) {
+      if (char === '\\') {
+        current += char + (query[i + 1] || '');
+        i++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '&' && query[i + 1] === '&') {
+      parts.push(current.trim());
+      current = '';
+      i++;
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+function parsePredicate(text: string): FieldPredicate {
+  const match = text.match(PREDICATE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid field predicate: ${text}`);
+  }
+
+  const path = Array.from(match[1].matchAll(PATH_SEGMENT_PATTERN)).map(segment =>
+    segment[2] !== undefined ? parseInt(segment[2], 10) : (segment[1] ?? segment[3] ?? segment[4])
+  );
+
+  const comparison = match[2] as Comparison | undefined;
+  if (!comparison) {
+    return { path };
+  }
+
+  const rawValue = match[3].trim();
+  if (comparison === '=~') {
+    // Regular expressions are written /pattern/flags or as a plain string
+    const regexLiteral = rawValue.match(/^\/(.*)\/([a-z]*)$/);
+    const source = regexLiteral ? regexLiteral[1] : rawValue.replace(/^["']|["']$/g, '');
+    // The same expression tests every message, so the stateful global and sticky flags are dropped
+    const flags = (regexLiteral?.[2] || '').replace(/[gy]/g, '');
+    return { path, comparison, value: new RegExp(source, flags) };
+  }
+
+  // Values are JSON literals; single-quoted and bare words are accepted as strings too
+  let value: unknown;
+  try {
+    value = JSON.parse(rawValue.startsWith("'") && rawValue.endsWith("'") ? JSON.stringify(rawValue.slice(1, -1)) : rawValue);
+  } catch {
+    value = rawValue;
+  }
+  return { path, comparison, value };
+}
+
+function resolvePath(document: unknown, path: (string | number)[]): unknown {
+  let current = document;
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function matchesPredicate(document: unknown, predicate: FieldPredicate): boolean {
+  const actual = resolvePath(document, predicate.path);
+  const { comparison, value } = predicate;
+
+  switch (comparison) {
+    case undefined:
+      return actual !== undefined;
+    case '==':
+      return JSON.stringify(actual) === JSON.stringify(value);
+    case '!=':
+      return JSON.stringify(actual) !== JSON.stringify(value);
+    case '=~':
+      return actual !== undefined && (value as RegExp).test(typeof actual === 'string' ? actual : JSON.stringify(actual));
+    default: {
+      if (typeof actual !== typeof value || (typeof actual !== 'number' && typeof actual !== 'string')) {
+        return false;
+      }
+      const a = actual as number | string;
+      const b = value as number | string;
+      return comparison === '>' ? a > b : comparison === '>=' ? a >= b : comparison === '<' ? a < b : a <= b;
+    }
+  }
+}
+
+export type CompiledMessageFilter = {
+  matches?: (message: Message) => boolean; // Undefined when the filter is empty
+  error?: string;
+};
+
+/**
+ * Compiles a filter into a predicate, or returns an error for an invalid regular expression or field predicate.
+ */
+export function compileMessageFilter(filter: MessageFilter): CompiledMessageFilter {
+  const query = filter.query?.trim() || '';
+  let matchesBody: ((body: string) => boolean) | undefined;
+
+  try {
+    if (query && filter.mode === 'regex') {
+      const regex = new RegExp(query, 'i');
+      matchesBody = body => regex.test(body);
+    } else if (query && filter.mode === 'jsonPath') {
+      const predicates = splitPredicates(query).map(parsePredicate);
+      matchesBody = body => {
+        let document: unknown;
+        try {
+          document = JSON.parse(body);
+        } catch {
+          return false;
+        }
+        return predicates.every(predicate => matchesPredicate(document, predicate));
+      };
+    } else if (query) {
+      const lowerQuery = query.toLowerCase();
+      matchesBody = body => body.toLowerCase().includes(lowerQuery);
+    }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid filter' };
+  }
+
+  const { minReceiveCount, sentAfter, sentBefore } = filter;
+  if (!matchesBody && minReceiveCount === undefined && sentAfter === undefined && sentBefore === undefined) {
+    return {};
+  }
+
+  return {
+    matches: message => {
+      if (matchesBody && !matchesBody(filter.decoded ? decodeMessageBody(message.body).body : message.body)) return false;
+      if (minReceiveCount !== undefined && parseInt(message.attributes?.ApproximateReceiveCount || '0', 10) <= minReceiveCount) return false;
+      if (sentAfter !== undefined && (message.timestamp || 0) < sentAfter) return false;
+      if (sentBefore !== undefined && (message.timestamp || 0) > sentBefore) return false;
+      return true;
+    },
+  };
+}
+
+/**
+ * Adds a filter to the query string of a messages API request.
+ */
+export function appendMessageFilterParams(searchParams: URLSearchParams, filter: MessageFilter): void {
+  if (filter.query) {
+    searchParams.set('q', filter.query);
+    searchParams.set('match', filter.mode);
+    if (filter.decoded) searchParams.set('decoded', 'true');
+  }
+  if (filter.minReceiveCount !== undefined) searchParams.set('minReceiveCount', String(filter.minReceiveCount));
+  if (filter.sentAfter !== undefined) searchParams.set('sentAfter', String(filter.sentAfter));
+  if (filter.sentBefore !== undefined) searchParams.set('sentBefore', String(filter.sentBefore));
+}
+
+/**
+ * Reads a filter from the query string of a messages API request; undefined when it has no filter.
+ */
+export function parseMessageFilterParams(searchParams: URLSearchParams): MessageFilter | undefined {
+  const toNumber = (name: string) => {
+    const value = searchParams.get(name);
+    return value !== null && value !== '' && !Number.isNaN(Number(value)) ? Number(value) : undefined;
+  };
+
+  const filter: MessageFilter = {
+    query: searchParams.get('q') || undefined,
+    mode: (searchParams.get('match') || 'substring') as MessageMatchMode,
+    minReceiveCount: toNumber('minReceiveCount'),
+    sentAfter: toNumber('sentAfter'),
+    sentBefore: toNumber('sentBefore'),
+    decoded: searchParams.get('decoded') === 'true',
+  };
+
+  const hasFilter = filter.query || filter.minReceiveCount !== undefined
+    || filter.sentAfter !== undefined || filter.sentBefore !== undefined;
+  return hasFilter ? filter : undefined;
+}
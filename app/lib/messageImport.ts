@@ -0,0 +1,64 @@
+// Parsing of NDJSON message exports for replaying them into a queue.
+// These are plain functions without SDK imports so they can be used from client components.
+
+import { BatchMessageEntry } from './sqs';
+import { ExportedMessage } from './messageExport';
+
+export type ImportLine = {
+  line: number; // 1-based line number in the file
+  entry?: BatchMessageEntry;
+  error?: string;
+};
+
+export type ImportLineResult = {
+  line: number;
+  success: boolean;
+  messageId?: string;
+  error?: string;
+};
+
+/**
+ * Parses an NDJSON export into message entries, keeping message attributes and the FIFO group and
+ * deduplication IDs of the original messages. Lines that cannot be parsed are returned with an error.
+ * With useIdForDeduplication, messages without a deduplication ID fall back to their original message ID,
+ * so replaying the same file twice within the deduplication interval does not create duplicates.
+ */
+export function parseImportFile(content: string, useIdForDeduplication: boolean): ImportLine[] {
+  const lines: ImportLine[] = [];
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    if (!text.trim()) return;
+    const line = index + 1;
+
+    let record: Partial<ExportedMessage>;
+    try {
+      record = JSON.parse(text);
+    } catch (e) {
+      lines.push({ line, error: 'Invalid JSON: ' + (e instanceof Error ? e.message : 'Unknown error') });
+      return;
+    }
+
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      lines.push({ line, error: 'Expected an exported message object' });
+      return;
+    }
+
+    if (record.body === undefined || record.body === null || record.body === '') {
+      lines.push({ line, error: 'Message body is missing' });
+      return;
+    }
+
+    lines.push({
+      line,
+      entry: {
+        body: typeof record.body === 'string' ? record.body : JSON.stringify(record.body),
+        messageAttributes: record.messageAttributes,
+        messageGroupId: record.attributes?.MessageGroupId,
+        messageDeduplicationId: record.attributes?.MessageDeduplicationId
+          || (useIdForDeduplication && record.id ? record.id : undefined),
+      },
+    });
+  });
+
+  return lines;
+}
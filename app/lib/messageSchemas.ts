@@ -0,0 +1,103 @@
+// JSON Schemas for the message payloads of queues, used to validate messages before they are sent and to
+// flag peeked messages that do not match. Schemas are read from the SQS_MESSAGE_SCHEMAS environment variable
+// (a JSON array) or from the JSON file referenced by SQS_MESSAGE_SCHEMAS_FILE.
+
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { DEFAULT_PROFILE_NAME } from './connectionProfiles';
+import { JsonSchema } from './jsonSchema';
+
+export type MessageSchemaEntry = {
+  profile?: string; // Defaults to every profile
+  queue: string; // Queue name, or a name prefix ending in * (e.g. "orders-*")
+  schema?: JsonSchema;
+  schemaFile?: string; // Path to a JSON Schema file, instead of an inline schema
+};
+
+export type QueueMessageSchema = {
+  queue: string; // The name or pattern the schema was configured for
+  schema: JsonSchema;
+};
+
+function readSchemaEntries(): MessageSchemaEntry[] {
+  let json = process.env.SQS_MESSAGE_SCHEMAS;
+  let baseDirectory = process.cwd();
+
+  if (!json && process.env.SQS_MESSAGE_SCHEMAS_FILE) {
+    try {
+      json = readFileSync(process.env.SQS_MESSAGE_SCHEMAS_FILE, 'utf-8');
+      // Schema files are resolved relative to the file that lists them
+      baseDirectory = dirname(resolve(process.env.SQS_MESSAGE_SCHEMAS_FILE));
+    } catch (error) {
+      console.error(`Error reading message schemas from ${process.env.SQS_MESSAGE_SCHEMAS_FILE}:`, error);
+      return [];
+    }
+  }
+
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) {
+      console.error('Message schemas must be a JSON array');
+      return [];
+    }
+
+    return parsed.flatMap((entry: MessageSchemaEntry) => {
+      if (!entry?.queue) {
+        console.error('Ignoring message schema without a queue');
+        return [];
+      }
+
+      if (entry.schemaFile) {
+        try {
+          return [{ ...entry, schema: JSON.parse(readFileSync(resolve(baseDirectory, entry.schemaFile), 'utf-8')) }];
+        } catch (error) {
+          console.error(`Ignoring message schema for ${entry.queue}: could not read ${entry.schemaFile}:`, error);
+          return [];
+        }
+      }
+
+      if (entry.schema === undefined || (typeof entry.schema !== 'object' && typeof entry.schema !== 'boolean')) {
+        console.error(`Ignoring message schema for ${entry.queue}: schema or schemaFile is required`);
+        return [];
+      }
+      return [entry];
+    });
+  } catch (error) {
+    console.error('Error parsing message schemas:', error);
+    return [];
+  }
+}
+
+let cachedEntries: MessageSchemaEntry[] | null = null;
+
+function getSchemaEntries(): MessageSchemaEntry[] {
+  if (!cachedEntries) {
+    cachedEntries = readSchemaEntries();
+    if (cachedEntries.length > 0) {
+      console.log(`Loaded message schemas for: ${cachedEntries.map(entry => entry.queue).join(', ')}`);
+    }
+  }
+  return cachedEntries;
+}
+
+/**
+ * Finds the schema for a queue. A schema for the exact queue name wins over patterns,
+ * and a longer prefix wins over a shorter one.
+ */
+export function getMessageSchema(profileName: string, queueName: string): QueueMessageSchema | null {
+  const candidates = getSchemaEntries()
+    .filter(entry => !entry.profile || entry.profile === (profileName || DEFAULT_PROFILE_NAME))
+    .filter(entry => entry.queue.endsWith('*') ? queueName.startsWith(entry.queue.slice(0, -1)) : entry.queue === queueName)
+    .sort((a, b) => {
+      const aExact = !a.queue.endsWith('*');
+      const bExact = !b.queue.endsWith('*');
+      return aExact !== bExact ? (aExact ? -1 : 1) : b.queue.length - a.queue.length;
+    });
+
+  const entry = candidates[0];
+  return entry ? { queue: entry.queue, schema: entry.schema as JsonSchema } : null;
+}
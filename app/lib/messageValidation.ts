@@ -0,0 +1,103 @@
+import { MessageAttribute, SendMessageOptions } from './sqs';
+
+// Group and deduplication IDs are up to 128 printable ASCII characters
+const FIFO_ID_PATTERN = /^[\x21-\x7E]{1,128}$/;
+
+// SQS accepts at most 10 message attributes per message
+const MAX_MESSAGE_ATTRIBUTES = 10;
+
+export type SendOptionsInput = {
+  messageAttributes?: Record<string, MessageAttribute>;
+  delaySeconds?: number | string;
+  messageGroupId?: string;
+  messageDeduplicationId?: string;
+};
+
+export type QueueSendSettings = {
+  isFifo: boolean;
+  contentBasedDeduplication: boolean;
+};
+
+/**
+ * Validates message attributes sent by the client, returning an error message for the first invalid one.
+ */
+export function validateMessageAttributes(messageAttributes: Record<string, MessageAttribute>): string | null {
+  const entries = Object.entries(messageAttributes);
+  
+  if (entries.length > MAX_MESSAGE_ATTRIBUTES) {
+    return `A message can have at most ${MAX_MESSAGE_ATTRIBUTES} attributes`;
+  }
+  
+  for (const [name, attribute] of entries) {
+    if (!/^[a-zA-Z0-9_.-]{1,256}$/.test(name) || name.startsWith('.') || name.endsWith('.') || /^(aws|amazon)\./i.test(name)) {
+      return `Invalid message attribute name: ${name}`;
+    }
+    
+    const baseType = (attribute?.dataType || '').split('.')[0];
+    
+    if (baseType === 'Binary') {
+      if (!attribute.binaryValue || !/^[A-Za-z0-9+/]+={0,2}$/.test(attribute.binaryValue)) {
+        return `Message attribute ${name} must have a base64 encoded binary value`;
+      }
+    } else if (baseType === 'String' || baseType === 'Number') {
+      if (!attribute.stringValue) {
+        return `Message attribute ${name} must have a value`;
+      }
+      if (baseType === 'Number' && Number.isNaN(Number(attribute.stringValue))) {
+        return `Message attribute ${name} must be a number`;
+      }
+    } else {
+      return `Message attribute ${name} must be of type String, Number or Binary`;
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Validates the per-message send options against the queue type and turns them into SendMessageOptions.
+ */
+export function validateSendOptions(input: SendOptionsInput, queue: QueueSendSettings): { options?: SendMessageOptions; error?: string } {
+  const options: SendMessageOptions = {};
+  
+  if (input.messageAttributes && Object.keys(input.messageAttributes).length > 0) {
+    const error = validateMessageAttributes(input.messageAttributes);
+    if (error) {
+      return { error };
+    }
+    options.messageAttributes = input.messageAttributes;
+  }
+  
+  if (input.delaySeconds !== undefined && input.delaySeconds !== '') {
+    const delay = Number(input.delaySeconds);
+    if (!Number.isInteger(delay) || delay < 0 || delay > 900) {
+      return { error: 'Delay seconds must be an integer between 0 and 900' };
+    }
+    if (queue.isFifo) {
+      return { error: 'FIFO queues do not support per-message delays' };
+    }
+    options.delaySeconds = delay;
+  }
+  
+  if (queue.isFifo) {
+    if (!input.messageGroupId) {
+      return { error: 'Message group ID is required for FIFO queues' };
+    }
+    if (!FIFO_ID_PATTERN.test(input.messageGroupId)) {
+      return { error: 'Message group ID must be 1-128 printable ASCII characters' };
+    }
+    options.messageGroupId = input.messageGroupId;
+    
+    if (input.messageDeduplicationId) {
+      if (!FIFO_ID_PATTERN.test(input.messageDeduplicationId)) {
+        return { error: 'Message deduplication ID must be 1-128 printable ASCII characters' };
+      }
+      options.messageDeduplicationId = input.messageDeduplicationId;
+    } else if (!queue.contentBasedDeduplication) {
+      // Without content-based deduplication SQS rejects messages that have no deduplication ID
+      return { error: 'This queue does not use content-based deduplication, so a deduplication ID is required' };
+    }
+  }
+  
+  return { options };
+}
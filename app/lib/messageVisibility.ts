@@ -0,0 +1,12 @@
+// Helpers for messages hidden by a visibility timeout, shared by the peeked and the received messages views.
+
+/**
+ * Formats the time until a message becomes visible again as m:ss, or h:mm:ss from an hour on.
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
@@ -0,0 +1,117 @@
+// Watches queues for Server-Sent Event subscribers. Each watched queue is polled once on the server,
+// however many browser tabs subscribe to it, and changes are pushed to all of them.
+// Polling stops as soon as the last subscriber of a queue disconnects.
+
+import { ConnectionProfile } from './connectionProfiles';
+import { getProfileQueueAttributes, peekMessages, Message } from './sqs';
+
+export const QUEUE_EVENTS_POLL_INTERVAL_MS = 5 * 1000;
+
+// Same number of messages the detail page peeks at
+const PEEK_MAX_MESSAGES = 50;
+
+export type QueueAttributesEvent = {
+  type: 'attributes';
+  attributes: Record<string, string>;
+};
+
+export type QueueMessagesEvent = {
+  type: 'messages';
+  messages: Message[]; // All messages when initial, otherwise the newly observed ones
+  removedIds: string[]; // Messages no longer seen in the queue
+  initial?: boolean;
+};
+
+export type QueueEvent = QueueAttributesEvent | QueueMessagesEvent;
+
+type QueueListener = (event: QueueEvent) => void;
+
+type QueueWatcher = {
+  profile: ConnectionProfile;
+  queueUrl: string;
+  listeners: Set<QueueListener>;
+  attributes?: Record<string, string>;
+  messages?: Map<string, Message>;
+  isPolling: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+const watchers = new Map<string, QueueWatcher>();
+
+const emit = (watcher: QueueWatcher, event: QueueEvent) => {
+  watcher.listeners.forEach(listener => listener(event));
+};
+
+async function poll(watcher: QueueWatcher): Promise<void> {
+  try {
+    const attributes = await getProfileQueueAttributes(watcher.profile, watcher.queueUrl, ['All']);
+    if (JSON.stringify(attributes) !== JSON.stringify(watcher.attributes)) {
+      watcher.attributes = attributes;
+      emit(watcher, { type: 'attributes', attributes });
+    }
+
+    const messages = await peekMessages(watcher.queueUrl, PEEK_MAX_MESSAGES, watcher.profile);
+    const current = new Map(messages.map(message => [message.id, message]));
+
+    if (!watcher.messages) {
+      emit(watcher, { type: 'messages', messages, removedIds: [], initial: true });
+    } else {
+      const previous = watcher.messages;
+      const added = messages.filter(message => !previous.has(message.id));
+      const removedIds = Array.from(previous.keys()).filter(id => !current.has(id));
+      if (added.length > 0 || removedIds.length > 0) {
+        emit(watcher, { type: 'messages', messages: added, removedIds });
+      }
+    }
+    watcher.messages = current;
+  } catch (error) {
+    console.error(`Error polling queue ${watcher.queueUrl} for subscribers:`, error);
+  }
+
+  // Schedule the next poll only after this one finished, as peeking can take several seconds
+  if (watcher.listeners.size > 0) {
+    watcher.timer = setTimeout(() => poll(watcher), QUEUE_EVENTS_POLL_INTERVAL_MS);
+  } else {
+    watcher.isPolling = false;
+  }
+}
+
+/**
+ * Subscribes to the attribute changes and newly observed messages of a queue.
+ * A new subscriber first gets the current state, if the queue is already being watched.
+ * Returns a function that ends the subscription.
+ */
+export function subscribeToQueue(profile: ConnectionProfile, queueUrl: string, listener: QueueListener): () => void {
+  const key = `${profile.name}|${queueUrl}`;
+
+  let watcher = watchers.get(key);
+  if (!watcher) {
+    watcher = { profile, queueUrl, listeners: new Set(), isPolling: false };
+    watchers.set(key, watcher);
+  }
+  watcher.listeners.add(listener);
+
+  if (watcher.attributes) {
+    listener({ type: 'attributes', attributes: watcher.attributes });
+  }
+  if (watcher.messages) {
+    listener({ type: 'messages', messages: Array.from(watcher.messages.values()), removedIds: [], initial: true });
+  }
+
+  if (!watcher.isPolling) {
+    console.log(`Watching queue ${queueUrl} for subscribers`);
+    watcher.isPolling = true;
+    poll(watcher);
+  }
+
+  const activeWatcher = watcher;
+  return () => {
+    activeWatcher.listeners.delete(listener);
+    if (activeWatcher.listeners.size === 0) {
+      console.log(`Stopped watching queue ${queueUrl}`);
+      // A poll that is still running does not schedule another one without subscribers
+      clearTimeout(activeWatcher.timer);
+      watchers.delete(key);
+    }
+  };
+}
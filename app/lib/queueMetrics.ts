@@ -0,0 +1,103 @@
+// Samples the message counts of queues on the server while their metrics panel is open, keeping a rolling
+// in-memory history per connection profile and queue. Sampling stops when nobody asked for the metrics
+// of a queue for a while; its history is kept, so reopening the panel continues the charts.
+
+import { ConnectionProfile } from './connectionProfiles';
+import { getActiveProfile, getProfileQueueAttributes } from './sqs';
+
+export const METRICS_SAMPLE_INTERVAL_MS = 10 * 1000;
+
+// One hour of samples
+const MAX_SAMPLES = 360;
+
+const SAMPLER_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type QueueMetricsSample = {
+  timestamp: number;
+  visible: number;
+  inFlight: number;
+  delayed: number;
+  // Messages per second, derived from the change of the total message count since the previous sample.
+  // The counts only tell the net change, so at most one of the two rates is non-zero.
+  enqueueRate?: number;
+  dequeueRate?: number;
+};
+
+type QueueSampler = {
+  profile: ConnectionProfile;
+  queueUrl: string;
+  samples: QueueMetricsSample[];
+  lastRequestedAt: number;
+  timer?: ReturnType<typeof setInterval>;
+};
+
+const samplers = new Map<string, QueueSampler>();
+
+const totalMessages = (sample: QueueMetricsSample) => sample.visible + sample.inFlight + sample.delayed;
+
+async function takeSample(sampler: QueueSampler): Promise<void> {
+  try {
+    const attributes = await getProfileQueueAttributes(sampler.profile, sampler.queueUrl, [
+      'ApproximateNumberOfMessages',
+      'ApproximateNumberOfMessagesNotVisible',
+      'ApproximateNumberOfMessagesDelayed',
+    ]);
+
+    const sample: QueueMetricsSample = {
+      timestamp: Date.now(),
+      visible: parseInt(attributes.ApproximateNumberOfMessages || '0', 10),
+      inFlight: parseInt(attributes.ApproximateNumberOfMessagesNotVisible || '0', 10),
+      delayed: parseInt(attributes.ApproximateNumberOfMessagesDelayed || '0', 10),
+    };
+
+    // Rates are only derived between consecutive samples, not across a pause in sampling
+    const previous = sampler.samples[sampler.samples.length - 1];
+    const elapsedSeconds = previous ? (sample.timestamp - previous.timestamp) / 1000 : 0;
+    if (previous && elapsedSeconds > 0 && elapsedSeconds * 1000 <= 2 * METRICS_SAMPLE_INTERVAL_MS) {
+      const change = totalMessages(sample) - totalMessages(previous);
+      sample.enqueueRate = Math.max(change, 0) / elapsedSeconds;
+      sample.dequeueRate = Math.max(-change, 0) / elapsedSeconds;
+    }
+
+    sampler.samples.push(sample);
+    if (sampler.samples.length > MAX_SAMPLES) {
+      sampler.samples.shift();
+    }
+  } catch (error) {
+    console.error(`Error sampling metrics of queue ${sampler.queueUrl}:`, error);
+  }
+}
+
+/**
+ * Returns the sampled history of a queue for the active connection profile, and keeps sampling it
+ * for a few minutes. The first call for a queue takes a sample right away.
+ */
+export async function getQueueMetrics(queueUrl: string): Promise<QueueMetricsSample[]> {
+  const profile = await getActiveProfile();
+  const key = `${profile.name}|${queueUrl}`;
+
+  let sampler = samplers.get(key);
+  if (!sampler) {
+    sampler = { profile, queueUrl, samples: [], lastRequestedAt: 0 };
+    samplers.set(key, sampler);
+  }
+  sampler.lastRequestedAt = Date.now();
+
+  if (!sampler.timer) {
+    console.log(`Starting metrics sampling for queue ${queueUrl}`);
+    const activeSampler = sampler;
+    activeSampler.timer = setInterval(() => {
+      if (Date.now() - activeSampler.lastRequestedAt > SAMPLER_IDLE_TIMEOUT_MS) {
+        console.log(`Stopping metrics sampling for queue ${queueUrl}`);
+        clearInterval(activeSampler.timer);
+        activeSampler.timer = undefined;
+        return;
+      }
+      takeSample(activeSampler);
+    }, METRICS_SAMPLE_INTERVAL_MS);
+
+    await takeSample(activeSampler);
+  }
+
+  return sampler.samples;
+}
@@ -0,0 +1,56 @@
+// Helpers for the RedrivePolicy and RedriveAllowPolicy queue attributes.
+// These are plain functions without SDK imports so they can be used from client components.
+
+export type RedrivePolicy = {
+  deadLetterTargetArn: string;
+  maxReceiveCount: number;
+};
+
+export type RedrivePermission = 'allowAll' | 'denyAll' | 'byQueue';
+
+export type RedriveAllowPolicy = {
+  redrivePermission: RedrivePermission;
+  sourceQueueArns?: string[];
+};
+
+export function parseRedrivePolicy(attributes?: Record<string, string>): RedrivePolicy | null {
+  if (!attributes?.RedrivePolicy) {
+    return null;
+  }
+
+  try {
+    const policy = JSON.parse(attributes.RedrivePolicy);
+    return {
+      deadLetterTargetArn: policy.deadLetterTargetArn,
+      maxReceiveCount: Number(policy.maxReceiveCount),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function parseRedriveAllowPolicy(attributes?: Record<string, string>): RedriveAllowPolicy | null {
+  if (!attributes?.RedriveAllowPolicy) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(attributes.RedriveAllowPolicy);
+  } catch {
+    return null;
+  }
+}
+
+export function queueNameFromArn(arn: string): string {
+  return arn.split(':').pop() || arn;
+}
+
+/**
+ * Builds the URL of a queue from its ARN, using the URL of another queue as reference.
+ * SQS requires a dead-letter queue to live in the same account and region as its source queue,
+ * so the two URLs only differ in the queue name.
+ */
+export function queueUrlFromArn(arn: string, referenceQueueUrl: string): string {
+  const baseUrl = referenceQueueUrl.substring(0, referenceQueueUrl.lastIndexOf('/'));
+  return `${baseUrl}/${queueNameFromArn(arn)}`;
+}
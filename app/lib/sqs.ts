@@ -4,55 +4,159 @@ import {
   SendMessageCommand, 
   ReceiveMessageCommand, 
   DeleteMessageCommand, 
+  DeleteMessageBatchCommand,
   GetQueueAttributesCommand,
   CreateQueueCommand,
-  DeleteQueueCommand
+  DeleteQueueCommand,
+  ChangeMessageVisibilityCommand,
+  ChangeMessageVisibilityBatchCommand,
+  ListDeadLetterSourceQueuesCommand,
+  SetQueueAttributesCommand,
+  PurgeQueueCommand,
+  PurgeQueueInProgress,
+  SendMessageBatchCommand,
+  SendMessageBatchRequestEntry,
+  Message as SQSMessage,
+  MessageAttributeValue,
+  QueueAttributeName
 } from '@aws-sdk/client-sqs';
 
-import { SQSClientConfig } from '@aws-sdk/client-sqs';
+import { cookies } from 'next/headers';
+import { RedriveAllowPolicy, RedrivePermission } from './redrivePolicy';
+import {
+  ConnectionProfile,
+  getConnectionProfile,
+  getProfileClient,
+  getProfileRegions,
+  PROFILE_COOKIE_NAME,
+} from './connectionProfiles';
 
-// Configure SQS client
-const clientConfig: SQSClientConfig = {
-  region: process.env.AWS_REGION || 'us-east-1',
-};
+/**
+ * Returns the connection profile selected in the header for the current request.
+ * Outside of a request (or without a selection) the default profile is used.
+ */
+export async function getActiveProfile(): Promise<ConnectionProfile> {
+  let profileName: string | undefined;
+  try {
+    profileName = (await cookies()).get(PROFILE_COOKIE_NAME)?.value;
+  } catch {
+    // Not called within a request
+  }
+  return getConnectionProfile(profileName);
+}
 
-// Use local endpoint if specified (for development/testing)
-if (process.env.SQS_ENDPOINT) {
-  clientConfig.endpoint = process.env.SQS_ENDPOINT;
-  // For local development, we don't need real credentials
-  clientConfig.credentials = {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || 'test',
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || 'test'
-  };
+/**
+ * Resolves the SQS client for the current request. Queue operations pass the region of the queue,
+ * so queues of every region of a profile can be managed.
+ */
+async function getClient(region?: string): Promise<SQSClient> {
+  const profile = await getActiveProfile();
+  return getProfileClient(profile, region || profile.region);
 }
 
-console.log('SQS Client Config:', JSON.stringify(clientConfig, null, 2));
-const client = new SQSClient(clientConfig);
+/**
+ * Returns the regions of the active connection profile that are listed in the queue overview.
+ */
+export async function getRegions(): Promise<string[]> {
+  return getProfileRegions(await getActiveProfile());
+}
+
+// Queue URLs look like https://sqs.us-east-1.amazonaws.com/123456789012/name (LocalStack uses a similar host)
+function regionFromQueueUrl(queueUrl: string): string | undefined {
+  return queueUrl.match(/^https?:\/\/sqs\.([a-z0-9-]+)\./)?.[1];
+}
 
 export type QueueInfo = {
   url: string;
   name: string;
+  region?: string; // Set when listing queues across several regions
   attributes?: Record<string, string>;
 };
 
+export type MessageAttribute = {
+  dataType: string; // String, Number or Binary, optionally with a custom type suffix such as Number.int
+  stringValue?: string;
+  binaryValue?: string; // Base64 encoded
+};
+
 export type Message = {
   id: string;
   body: string;
   receiptHandle: string;
   attributes?: Record<string, string | undefined>;
+  messageAttributes?: Record<string, MessageAttribute>;
   timestamp?: number; // Timestamp in milliseconds
 };
 
+export interface SendMessageOptions {
+  messageAttributes?: Record<string, MessageAttribute>;
+  delaySeconds?: number;
+  messageGroupId?: string; // Required for FIFO queues
+  messageDeduplicationId?: string; // Required for FIFO queues without content-based deduplication
+}
+
+function toMessage(message: SQSMessage): Message {
+  // Get timestamp from SentTimestamp attribute or default to current time
+  const timestamp = message.Attributes?.SentTimestamp 
+    ? parseInt(message.Attributes.SentTimestamp) 
+    : Date.now();
+  
+  let messageAttributes: Record<string, MessageAttribute> | undefined;
+  if (message.MessageAttributes) {
+    messageAttributes = {};
+    for (const [name, value] of Object.entries(message.MessageAttributes)) {
+      messageAttributes[name] = {
+        dataType: value.DataType || 'String',
+        stringValue: value.StringValue,
+        binaryValue: value.BinaryValue ? Buffer.from(value.BinaryValue).toString('base64') : undefined,
+      };
+    }
+  }
+  
+  return {
+    id: message.MessageId || '',
+    body: message.Body || '',
+    receiptHandle: message.ReceiptHandle || '',
+    attributes: message.Attributes,
+    messageAttributes,
+    timestamp: timestamp,
+  };
+}
+
+function toMessageAttributeValues(messageAttributes: Record<string, MessageAttribute>): Record<string, MessageAttributeValue> {
+  const values: Record<string, MessageAttributeValue> = {};
+  
+  for (const [name, attribute] of Object.entries(messageAttributes)) {
+    values[name] = {
+      DataType: attribute.dataType,
+      StringValue: attribute.binaryValue === undefined ? attribute.stringValue : undefined,
+      BinaryValue: attribute.binaryValue !== undefined ? Buffer.from(attribute.binaryValue, 'base64') : undefined,
+    };
+  }
+  
+  return values;
+}
+
 export type PaginatedResponse<T> = {
   items: T[];
   nextToken?: string;
+  error?: string; // Set when the listing failed, in which case items is empty
+};
+
+export type ListQueuesOptions = {
+  region?: string; // Defaults to the region of the current connection profile
+  namePrefix?: string; // Only list queues whose name starts with this prefix
+  profile?: ConnectionProfile; // For background jobs that run outside of a request
 };
 
-export async function listQueues(nextToken?: string, limit: number = 10): Promise<PaginatedResponse<QueueInfo>> {
+export async function listQueues(nextToken?: string, limit: number = 10, options: ListQueuesOptions = {}): Promise<PaginatedResponse<QueueInfo>> {
+  const { region, namePrefix, profile } = options;
+  const client = profile ? getProfileClient(profile, region || profile.region) : await getClient(region);
   try {
     const command = new ListQueuesCommand({
       MaxResults: limit,
-      NextToken: nextToken
+      NextToken: nextToken,
+      QueueNamePrefix: namePrefix || undefined,
     });
     const response = await client.send(command);
     
@@ -64,31 +168,148 @@ export async function listQueues(nextToken?: string, limit: number = 10): Promis
       nextToken: response.NextToken
     };
   } catch (error) {
-    console.error('Error listing queues:', error);
-    return { items: [] };
+    console.error(`Error listing queues${region ? ` in ${region}` : ''}:`, error);
+    return { items: [], error: error instanceof Error ? error.message : 'Failed to list queues' };
   }
 }
 
-export async function getQueueAttributes(queueUrl: string): Promise<Record<string, string>> {
-  try {
-    const command = new GetQueueAttributesCommand({
-      QueueUrl: queueUrl,
-      AttributeNames: ['All']
-    });
+// Queue attributes are cached briefly, as the queue list and the detail page ask for them on every load
+const ATTRIBUTE_CACHE_TTL_MS = 10 * 1000;
+
+// At most this many GetQueueAttributes calls run at the same time, to stay clear of SQS throttling
+const MAX_CONCURRENT_ATTRIBUTE_REQUESTS = 5;
+
+const MAX_THROTTLING_RETRIES = 4;
+
+// Keyed by profile, queue URL and attribute names. Pending lookups are cached too, so concurrent
+// requests for the same queue share a single call.
+const attributeCache = new Map<string, { expiresAt: number; attributes: Promise<Record<string, string>> }>();
+
+let activeAttributeRequests = 0;
+const waitingAttributeRequests: (() => void)[] = [];
+
+async function acquireAttributeRequestSlot(): Promise<void> {
+  if (activeAttributeRequests < MAX_CONCURRENT_ATTRIBUTE_REQUESTS) {
+    activeAttributeRequests++;
+    return;
+  }
+  // The slot is handed over directly by the request that releases it
+  await new Promise<void>(resolve => waitingAttributeRequests.push(resolve));
+}
+
+function releaseAttributeRequestSlot(): void {
+  const next = waitingAttributeRequests.shift();
+  if (next) {
+    next();
+  } else {
+    activeAttributeRequests--;
+  }
+}
+
+function isThrottlingError(error: unknown): boolean {
+  const sdkError = error as { name?: string; $retryable?: { throttling?: boolean }; $metadata?: { httpStatusCode?: number } };
+  return !!sdkError?.$retryable?.throttling
+    || sdkError?.$metadata?.httpStatusCode === 429
+    || ['ThrottlingException', 'Throttling', 'RequestThrottled'].includes(sdkError?.name || '');
+}
+
+async function fetchQueueAttributes(client: SQSClient, queueUrl: string, attributeNames: QueueAttributeName[]): Promise<Record<string, string>> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireAttributeRequestSlot();
+    try {
+      const command = new GetQueueAttributesCommand({
+        QueueUrl: queueUrl,
+        AttributeNames: attributeNames
+      });
+      
+      const response = await client.send(command);
+      return response.Attributes || {};
+    } catch (error) {
+      if (!isThrottlingError(error) || attempt >= MAX_THROTTLING_RETRIES) {
+        throw error;
+      }
+    } finally {
+      releaseAttributeRequestSlot();
+    }
     
-    const response = await client.send(command);
-    return response.Attributes || {};
-  } catch (error) {
+    // Wait without holding a slot, so other lookups can run during the backoff.
+    // Exponential backoff with jitter, so throttled lookups do not retry in lockstep
+    const delay = 200 * 2 ** attempt + Math.random() * 100;
+    console.warn(`Throttled getting attributes for queue ${queueUrl}, retrying in ${Math.round(delay)}ms`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+/**
+ * Gets the attributes of a queue, or only the given subset of them.
+ * Results are cached for a few seconds; a cached lookup of all attributes also serves subsets.
+ */
+export async function getQueueAttributes(queueUrl: string, attributeNames: QueueAttributeName[] = ['All']): Promise<Record<string, string>> {
+  const profile = await getActiveProfile();
+  const keyPrefix = `${profile.name}|${queueUrl}|`;
+  const key = keyPrefix + [...attributeNames].sort().join(',');
+  const now = Date.now();
+  
+  const cached = attributeCache.get(key) || attributeCache.get(keyPrefix + 'All');
+  if (cached && cached.expiresAt > now) {
+    return cached.attributes;
+  }
+  
+  // Drop expired entries now and then, so queues that are no longer listed do not pile up
+  if (attributeCache.size > 1000) {
+    for (const [cacheKey, entry] of attributeCache) {
+      if (entry.expiresAt <= now) {
+        attributeCache.delete(cacheKey);
+      }
+    }
+  }
+  
+  const client = getProfileClient(profile, regionFromQueueUrl(queueUrl) || profile.region);
+  const attributes = fetchQueueAttributes(client, queueUrl, attributeNames).catch(error => {
     console.error(`Error getting attributes for queue ${queueUrl}:`, error);
+    // Do not cache failures
+    attributeCache.delete(key);
     return {};
+  });
+  
+  attributeCache.set(key, { expiresAt: now + ATTRIBUTE_CACHE_TTL_MS, attributes });
+  return attributes;
+}
+
+/**
+ * Gets queue attributes with an explicit connection profile and without the cache, for background jobs
+ * that run outside of a request. Errors are thrown to the caller.
+ */
+export async function getProfileQueueAttributes(
+  profile: ConnectionProfile,
+  queueUrl: string,
+  attributeNames: QueueAttributeName[]
+): Promise<Record<string, string>> {
+  const client = getProfileClient(profile, regionFromQueueUrl(queueUrl) || profile.region);
+  return fetchQueueAttributes(client, queueUrl, attributeNames);
+}
+
+/**
+ * Removes cached attributes of a queue after it was changed through this application.
+ */
+function invalidateQueueAttributes(queueUrl: string): void {
+  for (const cacheKey of attributeCache.keys()) {
+    if (cacheKey.includes(`|${queueUrl}|`)) {
+      attributeCache.delete(cacheKey);
+    }
   }
 }
 
-export async function sendMessage(queueUrl: string, messageBody: string): Promise<boolean> {
+export async function sendMessage(queueUrl: string, messageBody: string, options: SendMessageOptions = {}): Promise<boolean> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
   try {
     const command = new SendMessageCommand({
       QueueUrl: queueUrl,
       MessageBody: messageBody,
+      MessageAttributes: options.messageAttributes ? toMessageAttributeValues(options.messageAttributes) : undefined,
+      DelaySeconds: options.delaySeconds,
+      MessageGroupId: options.messageGroupId,
+      MessageDeduplicationId: options.messageDeduplicationId,
     });
     
     await client.send(command);
@@ -99,33 +320,113 @@ export async function sendMessage(queueUrl: string, messageBody: string): Promis
   }
 }
 
-export async function receiveMessages(queueUrl: string, maxMessages: number = 10): Promise<Message[]> {
-  try {
-    const command = new ReceiveMessageCommand({
-      QueueUrl: queueUrl,
-      MaxNumberOfMessages: maxMessages,
-      AttributeNames: ['All'],
-      MessageAttributeNames: ['All'],
-      VisibilityTimeout: 30,
-      WaitTimeSeconds: 0,
-    });
-    
-    const response = await client.send(command);
-    
-    return (response.Messages || []).map(message => {
-      // Get timestamp from SentTimestamp attribute or default to current time
-      const timestamp = message.Attributes?.SentTimestamp 
-        ? parseInt(message.Attributes.SentTimestamp) 
-        : Date.now();
+export type BatchMessageEntry = SendMessageOptions & {
+  body: string;
+};
+
+export type BatchSendResult = {
+  successful: { index: number; messageId: string }[];
+  failed: { index: number; error: string }[];
+};
+
+// SendMessageBatch accepts at most 10 entries with a combined payload of at most 256 KiB
+const MAX_BATCH_ENTRIES = 10;
+const MAX_BATCH_BYTES = 256 * 1024;
+
+/**
+ * Sends messages with SendMessageBatch, splitting them into as few batches as the SQS limits allow.
+ * Failures are reported per entry, using the index of the entry in the given array.
+ */
+export async function sendMessageBatch(queueUrl: string, entries: BatchMessageEntry[]): Promise<BatchSendResult> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  const result: BatchSendResult = { successful: [], failed: [] };
+  
+  // Group entry indexes into batches that respect both the entry count and the payload size limits
+  const batches: number[][] = [];
+  let currentBatch: number[] = [];
+  let currentBytes = 0;
+  
+  entries.forEach((entry, index) => {
+    const entryBytes = Buffer.byteLength(entry.body, 'utf-8');
+    if (currentBatch.length === MAX_BATCH_ENTRIES || (currentBatch.length > 0 && currentBytes + entryBytes > MAX_BATCH_BYTES)) {
+      batches.push(currentBatch);
+      currentBatch = [];
+      currentBytes = 0;
+    }
+    currentBatch.push(index);
+    currentBytes += entryBytes;
+  });
+  
+  if (currentBatch.length > 0) {
+    batches.push(currentBatch);
+  }
+  
+  for (const batch of batches) {
+    try {
+      const command = new SendMessageBatchCommand({
+        QueueUrl: queueUrl,
+        Entries: batch.map((index): SendMessageBatchRequestEntry => {
+          const entry = entries[index];
+          return {
+            Id: index.toString(),
+            MessageBody: entry.body,
+            MessageAttributes: entry.messageAttributes ? toMessageAttributeValues(entry.messageAttributes) : undefined,
+            DelaySeconds: entry.delaySeconds,
+            MessageGroupId: entry.messageGroupId,
+            MessageDeduplicationId: entry.messageDeduplicationId,
+          };
+        }),
+      });
       
-      return {
-        id: message.MessageId || '',
-        body: message.Body || '',
-        receiptHandle: message.ReceiptHandle || '',
-        attributes: message.Attributes,
-        timestamp: timestamp,
-      };
-    });
+      const response = await client.send(command);
+      
+      for (const success of response.Successful || []) {
+        result.successful.push({ index: Number(success.Id), messageId: success.MessageId || '' });
+      }
+      
+      for (const failure of response.Failed || []) {
+        result.failed.push({ index: Number(failure.Id), error: failure.Message || failure.Code || 'Failed to send message' });
+      }
+    } catch (error) {
+      // The whole batch was rejected, e.g. because of throttling or an invalid queue URL
+      console.error(`Error sending message batch to queue ${queueUrl}:`, error);
+      const message = error instanceof Error ? error.message : 'Failed to send message batch';
+      batch.forEach(index => result.failed.push({ index, error: message }));
+    }
+  }
+  
+  console.log(`Batch send finished: ${result.successful.length} sent, ${result.failed.length} failed`);
+  return result;
+}
+
+export type ReceiveOptions = {
+  visibilityTimeout?: number; // Seconds, defaults to 30
+  waitTimeSeconds?: number; // Long polling, defaults to 0
+};
+
+/**
+ * Receives messages and throws when the receive fails, for loops over the queue that would otherwise
+ * take throttling or a missing permission for an empty queue.
+ */
+export async function receiveMessagesOrThrow(queueUrl: string, maxMessages: number = 10, options: ReceiveOptions = {}): Promise<Message[]> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  const command = new ReceiveMessageCommand({
+    QueueUrl: queueUrl,
+    MaxNumberOfMessages: maxMessages,
+    AttributeNames: ['All'],
+    MessageAttributeNames: ['All'],
+    VisibilityTimeout: options.visibilityTimeout ?? 30,
+    WaitTimeSeconds: options.waitTimeSeconds ?? 0,
+  });
+  
+  const response = await client.send(command);
+  
+  return (response.Messages || []).map(toMessage);
+}
+
+export async function receiveMessages(queueUrl: string, maxMessages: number = 10, options: ReceiveOptions = {}): Promise<Message[]> {
+  try {
+    return await receiveMessagesOrThrow(queueUrl, maxMessages, options);
   } catch (error) {
     console.error(`Error receiving messages from queue ${queueUrl}:`, error);
     return [];
@@ -135,8 +436,11 @@ export async function receiveMessages(queueUrl: string, maxMessages: number = 10
 /**
  * Peek at messages without fully consuming them from the queue.
  * Uses the most reliable approach to retrieve all messages while minimizing visibility impact.
+ * Background jobs that run outside of a request pass their connection profile.
  */
-export async function peekMessages(queueUrl: string, maxMessages: number = 10): Promise<Message[]> {
+export async function peekMessages(queueUrl: string, maxMessages: number = 10, profile?: ConnectionProfile): Promise<Message[]> {
+  const activeProfile = profile || await getActiveProfile();
+  const client = getProfileClient(activeProfile, regionFromQueueUrl(queueUrl) || activeProfile.region);
   try {
     console.log(`Attempting to peek up to ${maxMessages} messages from ${queueUrl}`);
     
@@ -145,7 +449,9 @@ export async function peekMessages(queueUrl: string, maxMessages: number = 10):
     const allMessages: Message[] = [];
     
     // First get the queue attributes to see how many messages are available
-    const attributes = await getQueueAttributes(queueUrl);
+    const attributes = profile
+      ? await getProfileQueueAttributes(profile, queueUrl, ['ApproximateNumberOfMessages'])
+      : await getQueueAttributes(queueUrl, ['ApproximateNumberOfMessages']);
     const approximateCount = parseInt(attributes.ApproximateNumberOfMessages || '0', 10);
     
     console.log(`Queue reports approximately ${approximateCount} messages available`);
@@ -216,18 +522,7 @@ export async function peekMessages(queueUrl: string, maxMessages: number = 10):
           alreadyProcessed.add(messageId);
           newMessageCount++;
           
-          // Get timestamp from SentTimestamp attribute or default to current time
-          const timestamp = message.Attributes?.SentTimestamp 
-            ? parseInt(message.Attributes.SentTimestamp) 
-            : Date.now();
-          
-          allMessages.push({
-            id: messageId,
-            body: message.Body || '',
-            receiptHandle: message.ReceiptHandle || '',
-            attributes: message.Attributes,
-            timestamp: timestamp,
-          });
+          allMessages.push(toMessage(message));
         }
         
         console.log(`Added ${newMessageCount} new messages to result set`);
@@ -269,6 +564,7 @@ export async function peekMessages(queueUrl: string, maxMessages: number = 10):
  * Uses multiple attempts to maximize chances of finding the target message.
  */
 export async function receiveMessageById(queueUrl: string, messageId: string): Promise<Message | null> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
   try {
     console.log(`Attempting to receive specific message ID: ${messageId} from queue ${queueUrl}`);
     
@@ -299,19 +595,7 @@ export async function receiveMessageById(queueUrl: string, messageId: string): P
       
       if (message) {
         console.log(`Found target message ID: ${messageId}`);
-        
-        // Get timestamp from SentTimestamp attribute or default to current time
-        const timestamp = message.Attributes?.SentTimestamp 
-          ? parseInt(message.Attributes.SentTimestamp) 
-          : Date.now();
-          
-        return {
-          id: message.MessageId || '',
-          body: message.Body || '',
-          receiptHandle: message.ReceiptHandle || '',
-          attributes: message.Attributes,
-          timestamp: timestamp,
-        };
+        return toMessage(message);
       }
       
       // If we didn't find the message and there are more attempts left,
@@ -331,6 +615,7 @@ export async function receiveMessageById(queueUrl: string, messageId: string): P
 }
 
 export async function deleteMessage(queueUrl: string, receiptHandle: string): Promise<boolean> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
   try {
     console.log(`Attempting to delete message from queue ${queueUrl}`);
     
@@ -377,9 +662,65 @@ export interface CreateQueueParams {
   messageRetentionPeriod?: number;
   visibilityTimeout?: number;
   maxMessageSize?: number;
+  deadLetterQueueUrl?: string;
+  maxReceiveCount?: number;
+  redriveAllowPolicy?: RedriveAllowPolicyParams;
+}
+
+export interface RedriveAllowPolicyParams {
+  redrivePermission: RedrivePermission;
+  sourceQueueUrls?: string[]; // Only used with the byQueue permission
+}
+
+async function getQueueArn(queueUrl: string): Promise<string> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  const command = new GetQueueAttributesCommand({
+    QueueUrl: queueUrl,
+    AttributeNames: ['QueueArn']
+  });
+  
+  const response = await client.send(command);
+  const arn = response.Attributes?.QueueArn;
+  
+  if (!arn) {
+    throw new Error(`Failed to resolve ARN of queue ${queueUrl}`);
+  }
+  
+  return arn;
+}
+
+/**
+ * Builds the RedrivePolicy and RedriveAllowPolicy attribute values, resolving queue URLs to ARNs.
+ */
+async function buildRedriveAttributes(params: Pick<CreateQueueParams, 'deadLetterQueueUrl' | 'maxReceiveCount' | 'redriveAllowPolicy'>): Promise<Record<string, string>> {
+  const attributes: Record<string, string> = {};
+  
+  if (params.deadLetterQueueUrl) {
+    attributes['RedrivePolicy'] = JSON.stringify({
+      deadLetterTargetArn: await getQueueArn(params.deadLetterQueueUrl),
+      maxReceiveCount: params.maxReceiveCount ?? 10,
+    });
+  }
+  
+  if (params.redriveAllowPolicy) {
+    const policy: RedriveAllowPolicy = {
+      redrivePermission: params.redriveAllowPolicy.redrivePermission,
+    };
+    
+    if (policy.redrivePermission === 'byQueue') {
+      policy.sourceQueueArns = await Promise.all(
+        (params.redriveAllowPolicy.sourceQueueUrls || []).map(getQueueArn)
+      );
+    }
+    
+    attributes['RedriveAllowPolicy'] = JSON.stringify(policy);
+  }
+  
+  return attributes;
 }
 
 export async function createQueue(params: CreateQueueParams): Promise<QueueInfo | null> {
+  const client = await getClient();
   try {
     console.log('createQueue function called with params:', params);
     
@@ -414,6 +755,8 @@ export async function createQueue(params: CreateQueueParams): Promise<QueueInfo
       attributes['MaximumMessageSize'] = params.maxMessageSize.toString();
     }
     
+    Object.assign(attributes, await buildRedriveAttributes(params));
+    
     console.log('Queue attributes:', attributes);
     console.log('SQS client config:', client.config);
 
@@ -451,16 +794,772 @@ export async function createQueue(params: CreateQueueParams): Promise<QueueInfo
   }
 }
 
+export interface UpdateQueueParams {
+  delaySeconds?: number;
+  messageRetentionPeriod?: number;
+  visibilityTimeout?: number;
+  maxMessageSize?: number;
+  receiveMessageWaitTimeSeconds?: number;
+  deadLetterQueueUrl?: string | null; // null removes the redrive policy
+  maxReceiveCount?: number;
+  redriveAllowPolicy?: RedriveAllowPolicyParams | null; // null removes the redrive allow policy
+  contentBasedDeduplication?: boolean;
+  deduplicationScope?: 'messageGroup' | 'queue';
+  fifoThroughputLimit?: 'perQueue' | 'perMessageGroupId';
+  policy?: string | null; // Access policy JSON, null removes it
+}
+
+/**
+ * Applies the given settings to an existing queue. Settings that are not provided are left unchanged.
+ */
+export async function updateQueueAttributes(queueUrl: string, params: UpdateQueueParams): Promise<boolean> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  try {
+    const attributes: Record<string, string> = {};
+    
+    if (params.delaySeconds !== undefined) {
+      attributes['DelaySeconds'] = params.delaySeconds.toString();
+    }
+    
+    if (params.messageRetentionPeriod !== undefined) {
+      attributes['MessageRetentionPeriod'] = params.messageRetentionPeriod.toString();
+    }
+    
+    if (params.visibilityTimeout !== undefined) {
+      attributes['VisibilityTimeout'] = params.visibilityTimeout.toString();
+    }
+    
+    if (params.maxMessageSize !== undefined) {
+      attributes['MaximumMessageSize'] = params.maxMessageSize.toString();
+    }
+    
+    if (params.receiveMessageWaitTimeSeconds !== undefined) {
+      attributes['ReceiveMessageWaitTimeSeconds'] = params.receiveMessageWaitTimeSeconds.toString();
+    }
+    
+    if (params.contentBasedDeduplication !== undefined) {
+      attributes['ContentBasedDeduplication'] = params.contentBasedDeduplication.toString();
+    }
+    
+    if (params.deduplicationScope !== undefined) {
+      attributes['DeduplicationScope'] = params.deduplicationScope;
+    }
+    
+    if (params.fifoThroughputLimit !== undefined) {
+      attributes['FifoThroughputLimit'] = params.fifoThroughputLimit;
+    }
+    
+    // SQS removes a policy attribute when it is set to an empty string
+    if (params.deadLetterQueueUrl === null) {
+      attributes['RedrivePolicy'] = '';
+    }
+    
+    if (params.redriveAllowPolicy === null) {
+      attributes['RedriveAllowPolicy'] = '';
+    }
+    
+    if (params.policy !== undefined) {
+      attributes['Policy'] = params.policy ?? '';
+    }
+    
+    Object.assign(attributes, await buildRedriveAttributes({
+      deadLetterQueueUrl: params.deadLetterQueueUrl ?? undefined,
+      maxReceiveCount: params.maxReceiveCount,
+      redriveAllowPolicy: params.redriveAllowPolicy ?? undefined,
+    }));
+    
+    console.log(`Updating attributes of queue ${queueUrl}:`, attributes);
+    
+    const command = new SetQueueAttributesCommand({
+      QueueUrl: queueUrl,
+      Attributes: attributes
+    });
+    
+    await client.send(command);
+    invalidateQueueAttributes(queueUrl);
+    return true;
+  } catch (error) {
+    console.error(`Error updating attributes of queue ${queueUrl}:`, error);
+    return false;
+  }
+}
+
+// SQS allows a single PurgeQueue call per queue every 60 seconds
+const PURGE_COOLDOWN_MS = 60 * 1000;
+
+// Time of the last successful purge per queue URL, to tell how long the cooldown still lasts
+const lastPurgeTimes = new Map<string, number>();
+
+export type PurgeQueueResult = {
+  success: boolean;
+  inProgress?: boolean; // A purge was started less than 60 seconds ago
+  retryAfterSeconds?: number; // Only known when the previous purge was started from this server
+};
+
+/**
+ * Deletes all messages in a queue. The deletion is asynchronous on the SQS side and can take up to 60 seconds.
+ */
+export async function purgeQueue(queueUrl: string): Promise<PurgeQueueResult> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  try {
+    const command = new PurgeQueueCommand({
+      QueueUrl: queueUrl
+    });
+    
+    await client.send(command);
+    lastPurgeTimes.set(queueUrl, Date.now());
+    invalidateQueueAttributes(queueUrl);
+    return { success: true };
+  } catch (error) {
+    if (error instanceof PurgeQueueInProgress) {
+      const lastPurgeTime = lastPurgeTimes.get(queueUrl);
+      const remainingMs = lastPurgeTime ? PURGE_COOLDOWN_MS - (Date.now() - lastPurgeTime) : 0;
+      
+      console.log(`Purge already in progress for queue ${queueUrl}`);
+      return {
+        success: false,
+        inProgress: true,
+        retryAfterSeconds: remainingMs > 0 ? Math.ceil(remainingMs / 1000) : undefined,
+      };
+    }
+    
+    console.error(`Error purging queue ${queueUrl}:`, error);
+    return { success: false };
+  }
+}
+
 export async function deleteQueue(queueUrl: string): Promise<boolean> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
   try {
     const command = new DeleteQueueCommand({
       QueueUrl: queueUrl
     });
     
     await client.send(command);
+    invalidateQueueAttributes(queueUrl);
     return true;
   } catch (error) {
     console.error(`Error deleting queue ${queueUrl}:`, error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Deletes received messages with DeleteMessageBatch, in batches of 10.
+ */
+export async function deleteMessageBatch(queueUrl: string, entries: ReceivedMessageHandle[]): Promise<MessageActionResult[]> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  const results: MessageActionResult[] = [];
+  
+  for (let offset = 0; offset < entries.length; offset += 10) {
+    const batch = entries.slice(offset, offset + 10);
+    try {
+      const command = new DeleteMessageBatchCommand({
+        QueueUrl: queueUrl,
+        Entries: batch.map((entry, index) => ({
+          Id: index.toString(),
+          ReceiptHandle: entry.receiptHandle,
+        })),
+      });
+      
+      const response = await client.send(command);
+      const failures = new Map((response.Failed || []).map(failure => [failure.Id, failure.Message || failure.Code]));
+      
+      batch.forEach((entry, index) => {
+        results.push(failures.has(index.toString())
+          ? { id: entry.id, success: false, error: failures.get(index.toString()) || 'Failed to delete message' }
+          : { id: entry.id, success: true });
+      });
+    } catch (error) {
+      console.error(`Error deleting messages from queue ${queueUrl}:`, error);
+      const message = error instanceof Error ? error.message : 'Failed to delete message';
+      results.push(...batch.map(entry => ({ id: entry.id, success: false, error: message })));
+    }
+  }
+  
+  return results;
+}
+
+export async function changeMessageVisibility(queueUrl: string, receiptHandle: string, visibilityTimeout: number): Promise<boolean> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  try {
+    const command = new ChangeMessageVisibilityCommand({
+      QueueUrl: queueUrl,
+      ReceiptHandle: receiptHandle,
+      VisibilityTimeout: visibilityTimeout,
+    });
+    
+    await client.send(command);
+    return true;
+  } catch (error) {
+    console.error(`Error changing message visibility in queue ${queueUrl}:`, error);
+    return false;
+  }
+}
+
+// Why a full-queue scan ended: the backlog was walked, the message limit was reached, the scan ran into
+// its visibility timeout, the browser stopped it, or receiving failed
+export type ScanStopReason = 'complete' | 'max' | 'timeout' | 'cancelled' | 'error';
+
+// Progress of a full-queue scan, streamed by the scan API as NDJSON
+export type ScanEvent =
+  | { type: 'start'; approximateCount: number }
+  | { type: 'messages'; messages: Message[]; scanned: number }
+  | { type: 'done'; reason: ScanStopReason; scanned: number; approximateCount: number; releaseFailed: number; error?: string };
+
+// A message with the receipt handle of the receive that returned it
+export type ReceivedMessageHandle = {
+  id: string; // Message ID
+  receiptHandle: string;
+};
+
+// Outcome per message of a batch action such as changing visibility or deleting
+export type MessageActionResult = {
+  id: string;
+  success: boolean;
+  error?: string;
+};
+
+// Outcome of changing the visibility of a message, with the receipt handle that stays valid for it
+export type VisibilityChangeResult = MessageActionResult & {
+  receiptHandle?: string;
+};
+
+/**
+ * Changes the visibility timeout of received messages, in batches of 10. The timeout counts from now,
+ * so it extends or shortens how long the messages stay in flight; 0 makes them visible right away.
+ */
+export async function changeMessageVisibilityBatch(
+  queueUrl: string,
+  entries: ReceivedMessageHandle[],
+  visibilityTimeout: number
+): Promise<MessageActionResult[]> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  const results: MessageActionResult[] = [];
+  
+  for (let offset = 0; offset < entries.length; offset += 10) {
+    const batch = entries.slice(offset, offset + 10);
+    try {
+      const command = new ChangeMessageVisibilityBatchCommand({
+        QueueUrl: queueUrl,
+        // Batch entry IDs only allow alphanumeric characters, hyphens and underscores, so use the position
+        Entries: batch.map((entry, index) => ({
+          Id: index.toString(),
+          ReceiptHandle: entry.receiptHandle,
+          VisibilityTimeout: visibilityTimeout,
+        })),
+      });
+      
+      const response = await client.send(command);
+      const failures = new Map((response.Failed || []).map(failure => [failure.Id, failure.Message || failure.Code]));
+      
+      batch.forEach((entry, index) => {
+        results.push(failures.has(index.toString())
+          ? { id: entry.id, success: false, error: failures.get(index.toString()) || 'Failed to change visibility' }
+          : { id: entry.id, success: true });
+      });
+    } catch (error) {
+      console.error(`Error changing message visibility in queue ${queueUrl}:`, error);
+      const message = error instanceof Error ? error.message : 'Failed to change visibility';
+      results.push(...batch.map(entry => ({ id: entry.id, success: false, error: message })));
+    }
+  }
+  
+  return results;
+}
+
+/**
+ * Makes received messages visible again right away.
+ * Returns the number of messages that could not be released; they reappear when their visibility timeout ends.
+ */
+export async function releaseMessages(queueUrl: string, receiptHandles: string[]): Promise<number> {
+  const results = await changeMessageVisibilityBatch(
+    queueUrl,
+    receiptHandles.map((receiptHandle, index) => ({ id: index.toString(), receiptHandle })),
+    0
+  );
+  return results.filter(result => !result.success).length;
+}
+
+/**
+ * Lists the URLs of the queues that use the given queue as their dead-letter queue.
+ */
+export async function listDeadLetterSourceQueues(queueUrl: string): Promise<string[]> {
+  const client = await getClient(regionFromQueueUrl(queueUrl));
+  try {
+    const command = new ListDeadLetterSourceQueuesCommand({
+      QueueUrl: queueUrl,
+      MaxResults: 1000,
+    });
+    
+    const response = await client.send(command);
+    return response.queueUrls || [];
+  } catch (error) {
+    console.error(`Error listing dead-letter source queues for ${queueUrl}:`, error);
+    return [];
+  }
+}
+
+export interface RedriveOptions {
+  targetQueueUrl: string;
+  messageIds?: string[]; // Only move these messages; everything else received is released again
+  maxMessages?: number; // Stop after moving this many messages
+}
+
+export type RedriveResult = {
+  moved: string[];
+  failed: { id: string; error: string }[];
+  notFound: string[]; // Selected messages the pass did not find, only filled when it walked the whole queue
+  done: boolean; // True when the source queue had no more visible messages to move
+  releaseFailed: number; // Messages that were not moved but stay hidden until their visibility timeout ends
+  error?: string; // Why the pass stopped early, e.g. a receive that failed
+};
+
+// Received messages stay hidden until the redrive request ends, so every receive returns messages not seen yet
+const REDRIVE_VISIBILITY_TIMEOUT = 120;
+
+const MAX_REDRIVE_SCANNED = 10000;
+
+/**
+ * Sends a received message to the target queue and deletes it from the source queue once it was sent.
+ * Returns false when the send failed, so the message is still in the source queue and should be released.
+ */
+async function redriveMessage(
+  targetClient: SQSClient,
+  sourceQueueUrl: string,
+  targetQueueUrl: string,
+  message: Message,
+  result: RedriveResult
+): Promise<boolean> {
+  const isFifoTarget = targetQueueUrl.endsWith('.fifo');
+  
+  try {
+    await targetClient.send(new SendMessageCommand({
+      QueueUrl: targetQueueUrl,
+      MessageBody: message.body,
+      MessageAttributes: message.messageAttributes ? toMessageAttributeValues(message.messageAttributes) : undefined,
+      // FIFO queues require a group ID; keep the original group and dedupe on the original message ID
+      MessageGroupId: isFifoTarget ? (message.attributes?.MessageGroupId || 'default') : undefined,
+      MessageDeduplicationId: isFifoTarget ? message.id : undefined,
+    }));
+  } catch (sendError) {
+    console.error(`Error sending message ${message.id} to ${targetQueueUrl}:`, sendError);
+    result.failed.push({ id: message.id, error: sendError instanceof Error ? sendError.message : 'Failed to send message' });
+    return false;
+  }
+  
+  if (await deleteMessage(sourceQueueUrl, message.receiptHandle)) {
+    result.moved.push(message.id);
+  } else {
+    // The copy already exists in the target queue, so the original would be delivered twice
+    result.failed.push({ id: message.id, error: 'Sent to target queue but failed to delete from source queue' });
+  }
+  return true;
+}
+
+/**
+ * Moves messages from one queue (typically a DLQ) to another by receiving, re-sending and deleting them.
+ * This works against any SQS-compatible endpoint (e.g. LocalStack), unlike the native StartMessageMoveTask.
+ * A message is only deleted from the source queue after it was successfully sent to the target queue.
+ * Selected messages are found with a single pass over the queue; otherwise messages are moved as they are
+ * received, in a pass that ends before the first received messages become visible again.
+ */
+export async function redriveMessages(sourceQueueUrl: string, options: RedriveOptions): Promise<RedriveResult> {
+  const targetClient = await getClient(regionFromQueueUrl(options.targetQueueUrl));
+  const result: RedriveResult = { moved: [], failed: [], notFound: [], done: false, releaseFailed: 0 };
+  const maxMessages = options.maxMessages ?? Number.POSITIVE_INFINITY;
+  
+  console.log(`Redriving messages from ${sourceQueueUrl} to ${options.targetQueueUrl}`);
+  
+  if (options.messageIds) {
+    const lookupResult = await receiveMessagesById(sourceQueueUrl, options.messageIds);
+    result.releaseFailed = lookupResult.releaseFailed;
+    result.done = lookupResult.complete;
+    
+    const unsentReceiptHandles: string[] = [];
+    for (const messageId of options.messageIds) {
+      const message = lookupResult.found.get(messageId);
+      if (!message) {
+        if (lookupResult.complete) {
+          result.notFound.push(messageId);
+        } else {
+          result.failed.push({ id: messageId, error: lookupFailureReason(lookupResult) });
+        }
+      } else if (!await redriveMessage(targetClient, sourceQueueUrl, options.targetQueueUrl, message, result)) {
+        unsentReceiptHandles.push(message.receiptHandle);
+      }
+    }
+    result.releaseFailed += await releaseMessages(sourceQueueUrl, unsentReceiptHandles);
+    
+    console.log(`Redrive finished: ${result.moved.length} moved, ${result.failed.length} failed`);
+    return result;
+  }
+  
+  // Messages we received but did not move, released again once we are done
+  const untouchedReceiptHandles: string[] = [];
+  const seenMessageIds = new Set<string>();
+  
+  try {
+    const MAX_EMPTY_RECEIVES = 2;
+    let emptyReceives = 0;
+    const deadline = Date.now() + (REDRIVE_VISIBILITY_TIMEOUT - 10) * 1000;
+    
+    while (
+      result.moved.length + result.failed.length < maxMessages
+      && seenMessageIds.size < MAX_REDRIVE_SCANNED
+      && Date.now() < deadline
+    ) {
+      // A failing receive must not end the pass as if the queue was drained
+      const messages = await receiveMessagesOrThrow(sourceQueueUrl, Math.min(10, maxMessages - result.moved.length - result.failed.length), {
+        visibilityTimeout: REDRIVE_VISIBILITY_TIMEOUT,
+        waitTimeSeconds: 1,
+      });
+      
+      let newMessages = 0;
+      for (const message of messages) {
+        // A message received twice already had its chance; its new receipt handle is released too
+        if (seenMessageIds.has(message.id) || result.moved.length + result.failed.length >= maxMessages) {
+          untouchedReceiptHandles.push(message.receiptHandle);
+          continue;
+        }
+        seenMessageIds.add(message.id);
+        newMessages++;
+        
+        if (!await redriveMessage(targetClient, sourceQueueUrl, options.targetQueueUrl, message, result)) {
+          untouchedReceiptHandles.push(message.receiptHandle);
+        }
+      }
+      
+      emptyReceives = newMessages === 0 ? emptyReceives + 1 : 0;
+      if (emptyReceives >= MAX_EMPTY_RECEIVES) {
+        result.done = true;
+        break;
+      }
+    }
+  } catch (error) {
+    console.error(`Error redriving messages from queue ${sourceQueueUrl}:`, error);
+    result.error = error instanceof Error ? error.message : 'Failed to redrive messages';
+  } finally {
+    // Make messages we did not move visible again right away instead of waiting for the timeout
+    result.releaseFailed = await releaseMessages(sourceQueueUrl, untouchedReceiptHandles);
+  }
+  
+  console.log(`Redrive finished: ${result.moved.length} moved, ${result.failed.length} failed`);
+  return result;
+}
+
+export interface BulkDeleteOptions {
+  messageIds?: string[]; // Delete these messages
+  matches?: (message: Message) => boolean; // Or every message the predicate accepts
+  maxScanned?: number; // Stop after receiving this many distinct messages
+}
+
+export type BulkDeleteResult = {
+  deleted: string[];
+  failed: { id: string; error: string }[];
+  notFound: string[];
+  scanned: number;
+  complete: boolean; // False when the scan stopped before it found every targeted message or walked the backlog
+  releaseFailed: number; // Messages that were not deleted but stay hidden until their visibility timeout ends
+  error?: string; // Why the scan stopped early, e.g. a receive that failed
+};
+
+// Scanned messages stay hidden until the delete ends, so every receive returns messages not seen yet
+const BULK_DELETE_VISIBILITY_TIMEOUT = 120;
+
+/**
+ * Deletes the given messages, or all messages accepted by a predicate, in a single pass over the queue.
+ * Every visible message is received once; targeted messages are deleted with DeleteMessageBatch right away
+ * and all other messages are made visible again when the pass ends.
+ */
+export async function bulkDeleteMessages(queueUrl: string, options: BulkDeleteOptions): Promise<BulkDeleteResult> {
+  const result: BulkDeleteResult = { deleted: [], failed: [], notFound: [], scanned: 0, complete: false, releaseFailed: 0 };
+  const targetIds = options.messageIds ? new Set(options.messageIds) : null;
+  const maxScanned = options.maxScanned ?? Number.POSITIVE_INFINITY;
+  
+  // Messages we received but did not delete, released again once we are done
+  const untouchedReceiptHandles: string[] = [];
+  const seenMessageIds = new Set<string>();
+  
+  try {
+    console.log(`Bulk deleting ${targetIds ? `${targetIds.size} messages` : 'matching messages'} from ${queueUrl}`);
+    
+    const MAX_EMPTY_RECEIVES = 3;
+    let emptyReceives = 0;
+    
+    // Stop a little before the first received messages become visible again and would be received twice
+    const deadline = Date.now() + (BULK_DELETE_VISIBILITY_TIMEOUT - 10) * 1000;
+    
+    while (seenMessageIds.size < maxScanned && Date.now() < deadline) {
+      if (targetIds && [...targetIds].every(id => seenMessageIds.has(id))) {
+        result.complete = true;
+        break;
+      }
+      
+      // A failing receive must not end the pass as if the backlog was walked
+      const messages = await receiveMessagesOrThrow(queueUrl, 10, {
+        visibilityTimeout: BULK_DELETE_VISIBILITY_TIMEOUT,
+        waitTimeSeconds: 1,
+      });
+      
+      const targeted: ReceivedMessageHandle[] = [];
+      let newMessages = 0;
+      for (const message of messages) {
+        // A message received twice already had its chance; its new receipt handle is released too
+        const isNew = !seenMessageIds.has(message.id);
+        seenMessageIds.add(message.id);
+        
+        if (isNew && (targetIds ? targetIds.has(message.id) : options.matches?.(message))) {
+          targeted.push({ id: message.id, receiptHandle: message.receiptHandle });
+        } else {
+          untouchedReceiptHandles.push(message.receiptHandle);
+        }
+        if (isNew) newMessages++;
+      }
+      
+      if (newMessages === 0) {
+        emptyReceives++;
+        if (emptyReceives >= MAX_EMPTY_RECEIVES) {
+          result.complete = true;
+          break;
+        }
+        continue;
+      }
+      emptyReceives = 0;
+      
+      if (targeted.length > 0) {
+        const deleteResults = await deleteMessageBatch(queueUrl, targeted);
+        deleteResults.forEach((deleteResult, index) => {
+          if (deleteResult.success) {
+            result.deleted.push(deleteResult.id);
+          } else {
+            result.failed.push({ id: deleteResult.id, error: deleteResult.error || 'Failed to delete message' });
+            untouchedReceiptHandles.push(targeted[index].receiptHandle);
+          }
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`Error bulk deleting messages from queue ${queueUrl}:`, error);
+    result.error = error instanceof Error ? error.message : 'Failed to delete messages';
+  } finally {
+    // Make messages we did not delete visible again right away instead of waiting for the timeout
+    result.releaseFailed = await releaseMessages(queueUrl, untouchedReceiptHandles);
+  }
+  
+  result.scanned = seenMessageIds.size;
+  // Messages the pass did not get to are not known to be missing
+  if (targetIds && result.complete) {
+    result.notFound = [...targetIds].filter(id => !seenMessageIds.has(id));
+  }
+  
+  console.log(`Bulk delete finished: ${result.deleted.length} deleted, ${result.failed.length} failed, ${result.scanned} scanned`);
+  return result;
+}
+
+export type MessageLookupResult = {
+  found: Map<string, Message>; // Targeted messages by ID, hidden until the caller deletes or releases them
+  scanned: number;
+  complete: boolean; // False when the pass stopped before it found every message or walked the backlog
+  releaseFailed: number; // Other messages that stay hidden until their visibility timeout ends
+  error?: string; // Why the pass stopped early, e.g. a receive that failed
+};
+
+// Found messages stay hidden this long, so they cannot be delivered to a consumer while the caller acts on them
+const LOOKUP_VISIBILITY_TIMEOUT = 120;
+
+// The pass ends after half the timeout, leaving the other half to act on the found messages
+const LOOKUP_DURATION_MS = (LOOKUP_VISIBILITY_TIMEOUT / 2) * 1000;
+
+const MAX_LOOKUP_SCANNED = 10000;
+
+/**
+ * Receives specific messages in a single pass over the queue, the way bulkDeleteMessages finds them.
+ * Every visible message is received once; the targeted ones are returned with a fresh receipt handle and
+ * all other messages are made visible again before this returns.
+ */
+export async function receiveMessagesById(queueUrl: string, messageIds: string[]): Promise<MessageLookupResult> {
+  const result: MessageLookupResult = { found: new Map(), scanned: 0, complete: false, releaseFailed: 0 };
+  const targetIds = new Set(messageIds);
+  
+  const untouchedReceiptHandles: string[] = [];
+  const seenMessageIds = new Set<string>();
+  
+  try {
+    const MAX_EMPTY_RECEIVES = 3;
+    let emptyReceives = 0;
+    const deadline = Date.now() + LOOKUP_DURATION_MS;
+    
+    while (seenMessageIds.size < MAX_LOOKUP_SCANNED && Date.now() < deadline) {
+      if (result.found.size === targetIds.size) {
+        result.complete = true;
+        break;
+      }
+      
+      const messages = await receiveMessagesOrThrow(queueUrl, 10, {
+        visibilityTimeout: LOOKUP_VISIBILITY_TIMEOUT,
+        waitTimeSeconds: 1,
+      });
+      
+      let newMessages = 0;
+      for (const message of messages) {
+        const isNew = !seenMessageIds.has(message.id);
+        seenMessageIds.add(message.id);
+        
+        if (isNew && targetIds.has(message.id)) {
+          result.found.set(message.id, message);
+        } else {
+          untouchedReceiptHandles.push(message.receiptHandle);
+        }
+        if (isNew) newMessages++;
+      }
+      
+      emptyReceives = newMessages === 0 ? emptyReceives + 1 : 0;
+      if (emptyReceives >= MAX_EMPTY_RECEIVES) {
+        result.complete = true;
+        break;
+      }
+    }
+  } catch (error) {
+    console.error(`Error looking up messages in queue ${queueUrl}:`, error);
+    result.error = error instanceof Error ? error.message : 'Failed to receive messages';
+  } finally {
+    result.releaseFailed = await releaseMessages(queueUrl, untouchedReceiptHandles);
+  }
+  
+  result.scanned = seenMessageIds.size;
+  console.log(`Looked up ${result.found.size} of ${targetIds.size} messages in ${queueUrl}, ${result.scanned} scanned`);
+  return result;
+}
+
+/**
+ * Why a message the lookup did not find is missing: gone from the queue, or not reached by the pass.
+ */
+export function lookupFailureReason(lookup: MessageLookupResult): string {
+  if (lookup.error) return `Lookup failed: ${lookup.error}`;
+  return lookup.complete
+    ? 'Message not found in queue or held by another consumer'
+    : 'Message not reached before the lookup had to stop; try again';
+}
+
+export type TransferMode = 'copy' | 'move';
+
+export type TransferResult = {
+  id: string;
+  success: boolean;
+  targetMessageId?: string;
+  error?: string;
+};
+
+/**
+ * Copies or moves specific messages to another queue, keeping their message attributes and FIFO group IDs.
+ * The messages are received in a single pass over the source queue. When moving, a source message is only
+ * deleted after it was sent to the target queue; when copying, the messages are made visible again afterwards.
+ */
+export async function transferMessages(sourceQueueUrl: string, targetQueueUrl: string, messageIds: string[], mode: TransferMode): Promise<TransferResult[]> {
+  const targetClient = await getClient(regionFromQueueUrl(targetQueueUrl));
+  const results: TransferResult[] = [];
+  const isFifoTarget = targetQueueUrl.endsWith('.fifo');
+  
+  console.log(`Transferring ${messageIds.length} messages from ${sourceQueueUrl} to ${targetQueueUrl} (${mode})`);
+  
+  const lookupResult = await receiveMessagesById(sourceQueueUrl, messageIds);
+  
+  // Found messages that stay in the source queue, made visible again once every message was sent
+  const releaseReceiptHandles: string[] = [];
+  
+  for (const messageId of messageIds) {
+    const message = lookupResult.found.get(messageId);
+    
+    if (!message) {
+      results.push({ id: messageId, success: false, error: lookupFailureReason(lookupResult) });
+      continue;
+    }
+    
+    let targetMessageId: string | undefined;
+    try {
+      const response = await targetClient.send(new SendMessageCommand({
+        QueueUrl: targetQueueUrl,
+        MessageBody: message.body,
+        MessageAttributes: message.messageAttributes ? toMessageAttributeValues(message.messageAttributes) : undefined,
+        // FIFO queues require a group ID; keep the original group and dedupe on the original message ID
+        MessageGroupId: isFifoTarget ? (message.attributes?.MessageGroupId || 'default') : undefined,
+        MessageDeduplicationId: isFifoTarget ? messageId : undefined,
+      }));
+      targetMessageId = response.MessageId;
+    } catch (sendError) {
+      console.error(`Error sending message ${messageId} to ${targetQueueUrl}:`, sendError);
+      releaseReceiptHandles.push(message.receiptHandle);
+      results.push({ id: messageId, success: false, error: sendError instanceof Error ? sendError.message : 'Failed to send message' });
+      continue;
+    }
+    
+    if (mode === 'copy') {
+      releaseReceiptHandles.push(message.receiptHandle);
+      results.push({ id: messageId, success: true, targetMessageId });
+    } else if (await deleteMessage(sourceQueueUrl, message.receiptHandle)) {
+      results.push({ id: messageId, success: true, targetMessageId });
+    } else {
+      // The copy already exists in the target queue, so the original would be delivered twice
+      results.push({ id: messageId, success: false, targetMessageId, error: 'Sent to target queue but failed to delete from source queue' });
+    }
+  }
+  
+  await releaseMessages(sourceQueueUrl, releaseReceiptHandles);
+  
+  console.log(`Transfer finished: ${results.filter(result => result.success).length} of ${messageIds.length} messages ${mode === 'copy' ? 'copied' : 'moved'}`);
+  return results;
+}
+
+export type ReplaceResult = {
+  success: boolean;
+  targetMessageId?: string;
+  error?: string;
+};
+
+/**
+ * Replaces a message with an edited copy, sent to the same or another queue. The original is found with a
+ * single pass over the source queue, so it stays hidden while the copy is sent, and is only deleted after
+ * the copy was sent successfully.
+ */
+export async function replaceMessage(
+  sourceQueueUrl: string,
+  messageId: string,
+  targetQueueUrl: string,
+  messageBody: string,
+  options: SendMessageOptions = {}
+): Promise<ReplaceResult> {
+  const targetClient = await getClient(regionFromQueueUrl(targetQueueUrl));
+  
+  console.log(`Replacing message ${messageId} of ${sourceQueueUrl} with an edited copy in ${targetQueueUrl}`);
+  
+  const lookupResult = await receiveMessagesById(sourceQueueUrl, [messageId]);
+  const original = lookupResult.found.get(messageId);
+  if (!original) {
+    return { success: false, error: lookupFailureReason(lookupResult) };
+  }
+  
+  let targetMessageId: string | undefined;
+  try {
+    const response = await targetClient.send(new SendMessageCommand({
+      QueueUrl: targetQueueUrl,
+      MessageBody: messageBody,
+      MessageAttributes: options.messageAttributes ? toMessageAttributeValues(options.messageAttributes) : undefined,
+      DelaySeconds: options.delaySeconds,
+      MessageGroupId: options.messageGroupId,
+      MessageDeduplicationId: options.messageDeduplicationId,
+    }));
+    targetMessageId = response.MessageId;
+  } catch (sendError) {
+    console.error(`Error sending edited copy of message ${messageId} to ${targetQueueUrl}:`, sendError);
+    await changeMessageVisibility(sourceQueueUrl, original.receiptHandle, 0);
+    return { success: false, error: sendError instanceof Error ? sendError.message : 'Failed to send message' };
+  }
+  
+  if (!await deleteMessage(sourceQueueUrl, original.receiptHandle)) {
+    // The edited copy already exists, so the original would be delivered as well
+    return { success: false, targetMessageId, error: 'Sent the edited message but failed to delete the original' };
+  }
+  
+  return { success: true, targetMessageId };
+}
@@ -1,11 +1,14 @@
 'use client';
 
-import { useState, useEffect, use } from 'react';
+import { useState, useEffect, useCallback, use } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import QueueDetail from '@/app/components/QueueDetail';
 import DeleteQueueModal from '@/app/components/DeleteQueueModal';
+import EditQueueModal from '@/app/components/EditQueueModal';
+import PurgeQueueModal from '@/app/components/PurgeQueueModal';
 import { QueueInfo } from '@/app/lib/sqs';
+import { parseRedrivePolicy, queueNameFromArn, queueUrlFromArn } from '@/app/lib/redrivePolicy';
 
 export default function QueueDetailPage({ params }: { params: Promise<{ queueUrl: string }> }) {
   const router = useRouter();
@@ -15,40 +18,60 @@ export default function QueueDetailPage({ params }: { params: Promise<{ queueUrl
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isPurgeModalOpen, setIsPurgeModalOpen] = useState(false);
+  const [deadLetterSourceQueues, setDeadLetterSourceQueues] = useState<QueueInfo[]>([]);
+
+  const fetchQueueInfo = useCallback(async () => {
+    try {
+      setLoading(true);
+      // Check if queueUrl is available
+      if (!queueUrl) {
+        throw new Error('Queue URL parameter is missing');
+      }
+      
+      // Use the direct API endpoint to get queue details
+      const response = await fetch(`/api/queues/${queueUrl}`);
+      
+      if (!response.ok) {
+        throw new Error(`Failed to fetch queue: ${response.statusText}`);
+      }
+      
+      const queue = await response.json();
+      
+      if (queue) {
+        setQueueInfo(queue);
+      } else {
+        throw new Error('Queue not found');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch queue information');
+      console.error('Error fetching queue info:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [queueUrl]);
 
   useEffect(() => {
-    const fetchQueueInfo = async () => {
+    // Queues that send their failed messages to this queue, for navigating from a DLQ to its sources
+    const fetchDeadLetterSourceQueues = async () => {
       try {
-        setLoading(true);
-        // Check if queueUrl is available
-        if (!queueUrl) {
-          throw new Error('Queue URL parameter is missing');
-        }
-        
-        // Use the direct API endpoint to get queue details
-        const response = await fetch(`/api/queues/${queueUrl}`);
+        const response = await fetch(`/api/queues/${queueUrl}/redrive`);
         
         if (!response.ok) {
-          throw new Error(`Failed to fetch queue: ${response.statusText}`);
+          throw new Error(`Failed to fetch dead-letter source queues: ${response.statusText}`);
         }
         
-        const queue = await response.json();
-        
-        if (queue) {
-          setQueueInfo(queue);
-        } else {
-          throw new Error('Queue not found');
-        }
+        const data = await response.json();
+        setDeadLetterSourceQueues(data.sourceQueues);
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to fetch queue information');
-        console.error('Error fetching queue info:', err);
-      } finally {
-        setLoading(false);
+        console.error('Error fetching dead-letter source queues:', err);
       }
     };
 
     fetchQueueInfo();
-  }, [queueUrl]);
+    fetchDeadLetterSourceQueues();
+  }, [queueUrl, fetchQueueInfo]);
 
   if (loading) {
     return (
@@ -77,6 +100,8 @@ export default function QueueDetailPage({ params }: { params: Promise<{ queueUrl
     );
   }
 
+  const redrivePolicy = parseRedrivePolicy(queueInfo.attributes);
+
   return (
     <div className="container mx-auto px-4 py-4">
       <div className="mb-4">
@@ -89,8 +114,54 @@ export default function QueueDetailPage({ params }: { params: Promise<{ queueUrl
         <div className="md:col-span-2">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{queueInfo.name}</h1>
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 break-all">{queueInfo.url}</p>
+          {redrivePolicy && (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Dead-letter queue:{' '}
+              <Link
+                href={`/queues/${Buffer.from(queueUrlFromArn(redrivePolicy.deadLetterTargetArn, queueInfo.url)).toString('base64')}`}
+                className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+              >
+                {queueNameFromArn(redrivePolicy.deadLetterTargetArn)}
+              </Link>{' '}
+              (after {redrivePolicy.maxReceiveCount} receives)
+            </p>
+          )}
+          {deadLetterSourceQueues.length > 0 && (
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Dead-letter queue for:{' '}
+              {deadLetterSourceQueues.map((sourceQueue, index) => (
+                <span key={sourceQueue.url}>
+                  {index > 0 && ', '}
+                  <Link
+                    href={`/queues/${Buffer.from(sourceQueue.url).toString('base64')}`}
+                    className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-900 dark:hover:text-indigo-300"
+                  >
+                    {sourceQueue.name}
+                  </Link>
+                </span>
+              ))}
+            </p>
+          )}
         </div>
         <div className="flex space-x-2 justify-start md:justify-end">
+          <button
+            onClick={() => setIsEditModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md shadow-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            Edit Settings
+          </button>
+          <button
+            onClick={() => setIsPurgeModalOpen(true)}
+            className="inline-flex items-center px-4 py-2 border border-red-300 dark:border-red-700 text-sm font-medium rounded-md shadow-sm text-red-700 dark:text-red-300 bg-white dark:bg-gray-700 hover:bg-red-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
+          >
+            <svg className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+            </svg>
+            Purge Queue
+          </button>
           <button
             onClick={() => setIsDeleteModalOpen(true)}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500"
@@ -120,6 +191,24 @@ export default function QueueDetailPage({ params }: { params: Promise<{ queueUrl
         />
       </main>
       
+      {/* Edit Settings Modal */}
+      <EditQueueModal
+        isOpen={isEditModalOpen}
+        queueUrl={queueUrl}
+        queueInfo={queueInfo}
+        onClose={() => setIsEditModalOpen(false)}
+        onSuccess={fetchQueueInfo}
+      />
+      
+      {/* Purge Modal */}
+      <PurgeQueueModal
+        isOpen={isPurgeModalOpen}
+        queueName={queueInfo.name}
+        queueUrl={queueUrl}
+        onClose={() => setIsPurgeModalOpen(false)}
+        onSuccess={fetchQueueInfo}
+      />
+      
       {/* Delete Modal */}
       {queueInfo && (
         <DeleteQueueModal
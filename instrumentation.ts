@@ -0,0 +1,7 @@
+// Runs once when the server starts, so alert rules are evaluated before anyone opens the UI
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startAlertEvaluation } = await import('./app/lib/alerts');
+    startAlertEvaluation();
+  }
+}